@@ -0,0 +1,35 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_MS } from './constants';
+
+export const CLIPS = ['idle', 'run', 'jump', 'flipped', 'recovering', 'dying'] as const;
+export type ClipName = typeof CLIPS[number];
+
+/**
+ * Which clip an entity is showing and how long it has been showing it. Plain
+ * data so it saves with the entity; frame timing lives with the artwork, so
+ * the simulation never needs to know how many frames a clip has.
+ */
+export interface Animation {
+    clip: ClipName;
+    time: number; // ms since the clip started
+}
+
+export function createAnimation(clip: ClipName = 'idle'): Animation {
+    return { clip, time: 0 };
+}
+
+// Switch clips, restarting the timer only when the clip actually changes.
+export function playClip(animation: Animation, clip: ClipName) {
+    if (animation.clip === clip) return;
+    animation.clip = clip;
+    animation.time = 0;
+}
+
+export function advanceAnimation(animation: Animation) {
+    animation.time += TICK_MS;
+}
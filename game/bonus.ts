@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, createAnimation } from './animation';
+import type { Platform } from './platforms';
+
+export const BONUS_STAGE_TIME = 20000; // ms to collect everything
+export const BONUS_TALLY_TIME = 4000;
+export const COIN_POINTS = 200;
+export const PERFECT_BONUS = 3000; // To every player still in the game when nothing is left uncollected
+const COIN_SPACING = 70; // Between coins along a platform
+const COIN_HOVER = 40; // Coins float this far above the platform they belong to
+
+/**
+ * A bonus stage collectible. Coins never move: they hang over the platforms
+ * and are gone as soon as a player touches one.
+ */
+export class Coin {
+    x: number;
+    y: number;
+    width = 24;
+    height = 24;
+    sprite = '🪙';
+    skin = 'coin';
+    animation: Animation = createAnimation();
+
+    constructor(x: number, y: number) {
+        this.x = x;
+        this.y = y;
+    }
+
+    update() {
+        advanceAnimation(this.animation);
+    }
+}
+
+// Lay coins evenly along every platform, the floor included. The layout alone decides where, so no RNG is used.
+export function placeCoins(platforms: Platform[]): Coin[] {
+    const coins: Coin[] = [];
+    platforms.forEach(p => {
+        const count = Math.max(1, Math.floor(p.width / COIN_SPACING));
+        const gap = p.width / count;
+        for (let i = 0; i < count; i++) {
+            coins.push(new Coin(p.x + gap * (i + 0.5) - 12, p.y - COIN_HOVER));
+        }
+    });
+    return coins;
+}
+
+export function bonusPoints(coins: number, perfect: boolean) {
+    return coins * COIN_POINTS + (perfect ? PERFECT_BONUS : 0);
+}
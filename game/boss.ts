@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, createAnimation } from './animation';
+import { isStandingOn } from './collision';
+import { GAME_HEIGHT, GAME_WIDTH, TICK_MS } from './constants';
+import { Enemy } from './enemies';
+import type { Player } from './player';
+import type { GameWorld } from './world';
+
+export const BOSS_BONUS = 5000;
+const BOSS_SPEED = 1.2;
+const HURT_TIME = 1000; // ms of invulnerability after each hit
+const BLAST_DAMAGE = 3; // An ExplosiveBlock hit counts for this many bumps
+const POUND_JUMP = -16;
+const POUND_TOSS = -9; // Players standing anywhere when a pound lands are thrown up
+const SHAKE_TIME = 500;
+const MAX_MINIONS = 4;
+const FIREBALL_SPEED = 4;
+// Pause between attacks for each phase (full health, wounded, desperate)
+const ATTACK_INTERVAL = [[2500, 3500], [1800, 2800], [1200, 2000]];
+
+type Attack = 'fireball' | 'pound' | 'minions';
+const PHASE_ATTACKS: Attack[][] = [['fireball'], ['fireball', 'pound'], ['fireball', 'pound', 'minions']];
+
+/**
+ * A boss fight. It cannot be flipped or kicked: each bump from below costs it
+ * one hit point and an ExplosiveBlock blast costs several. As its health
+ * drops it moves faster, attacks more often and picks up new attacks.
+ */
+export class BossEnemy extends Enemy {
+    health: number;
+    maxHealth: number;
+    invulnerableTimer = 0;
+    attackTimer = 2000;
+    pounding = false;
+    leapVx = 0;
+    hitsTaken = 0; // Since the last update, so the hit can be reported with the world to hand
+
+    constructor(x: number, y: number, health: number) {
+        super(x, y, 120, 105, '🐲', 'boss');
+        this.health = health;
+        this.maxHealth = health;
+        this.vx = BOSS_SPEED;
+    }
+
+    kind() {
+        return 'boss' as const;
+    }
+
+    // 0, 1 or 2 as health runs down.
+    phase() {
+        return Math.min(2, Math.floor((1 - this.health / this.maxHealth) * 3));
+    }
+
+    flip() {
+        this.takeHit(1);
+    }
+
+    blast() {
+        this.takeHit(BLAST_DAMAGE);
+    }
+
+    private takeHit(damage: number) {
+        if (this.invulnerableTimer > 0 || this.health <= 0) return;
+        this.health = Math.max(0, this.health - damage);
+        this.hitsTaken += damage;
+        this.invulnerableTimer = HURT_TIME;
+        this.hitAnimationTimer = HURT_TIME;
+    }
+
+    update(world: GameWorld) {
+        super.update(world);
+        if (this.invulnerableTimer > 0) this.invulnerableTimer -= TICK_MS;
+        if (this.hitsTaken > 0) {
+            world.emit({ type: 'bossHit', health: this.health, maxHealth: this.maxHealth });
+            this.hitsTaken = 0;
+        }
+        if (this.health <= 0) {
+            this.defeat(world);
+            return;
+        }
+
+        if (this.pounding) {
+            this.x += this.leapVx;
+            if (this.onGround) {
+                this.pounding = false;
+                this.groundPound(world);
+            }
+        } else if (this.onGround) {
+            this.x += this.vx * (1 + this.phase() * 0.4);
+        }
+        // Too big to wrap: turn around at the screen edges instead
+        if (this.x < 0) {
+            this.x = 0;
+            this.vx = Math.abs(this.vx);
+        } else if (this.x + this.width > GAME_WIDTH) {
+            this.x = GAME_WIDTH - this.width;
+            this.vx = -Math.abs(this.vx);
+        }
+
+        this.attackTimer -= TICK_MS;
+        if (this.attackTimer <= 0 && this.onGround && !this.pounding) {
+            const attacks = PHASE_ATTACKS[this.phase()];
+            this.attack(world, attacks[world.rng.int(0, attacks.length - 1)]);
+            const [min, max] = ATTACK_INTERVAL[this.phase()];
+            this.attackTimer = world.rng.int(min, max);
+        }
+    }
+
+    private attack(world: GameWorld, attack: Attack) {
+        const target = this.nearestPlayer(world);
+        if (attack === 'fireball' && target) {
+            const originX = this.x + this.width / 2;
+            const originY = this.y + this.height * 0.45;
+            const angle = Math.atan2(target.y + target.height / 2 - originY, target.x + target.width / 2 - originX);
+            // Later phases fan out extra shots either side of the aimed one
+            const spread = this.phase() === 2 ? [-0.3, 0, 0.3] : [0];
+            spread.forEach(offset => {
+                world.projectiles.push(new Fireball(originX, originY, Math.cos(angle + offset) * FIREBALL_SPEED, Math.sin(angle + offset) * FIREBALL_SPEED));
+            });
+            world.emit({ type: 'fireball', x: originX, y: originY });
+        } else if (attack === 'pound') {
+            this.vy = POUND_JUMP;
+            this.onGround = false;
+            this.pounding = true;
+            const dx = target ? target.x + target.width / 2 - (this.x + this.width / 2) : 0;
+            this.leapVx = Math.max(-4, Math.min(4, dx / 50));
+        } else if (attack === 'minions') {
+            const minions = world.enemies.length - 1;
+            for (let i = minions; i < Math.min(minions + 2, MAX_MINIONS); i++) {
+                world.spawnFromPipe('basic', world.rng.int(0, world.spawnPoints.length - 1));
+            }
+        }
+    }
+
+    private groundPound(world: GameWorld) {
+        world.platforms.forEach(p => p.shakeTimer = SHAKE_TIME);
+        world.players.forEach(player => {
+            const standing = player.vy >= 0 && world.platforms.some(p => isStandingOn(player, p));
+            if (!player.isDead && standing) player.vy = POUND_TOSS;
+        });
+        world.emit({ type: 'groundPound', x: this.x + this.width / 2, y: this.y + this.height });
+    }
+
+    private nearestPlayer(world: GameWorld): Player | null {
+        const living = world.players.filter(p => !p.isDead);
+        if (living.length === 0) return null;
+        const centerX = this.x + this.width / 2;
+        return living.reduce((best, p) => Math.abs(p.x - centerX) < Math.abs(best.x - centerX) ? p : best);
+    }
+
+    private defeat(world: GameWorld) {
+        world.remove(this);
+        world.projectiles = [];
+        world.particles.emit('death', this.x + this.width / 2, this.y + this.height / 2, this.sprite, this.skin, 80);
+        world.bossDefeated = true;
+        world.players.forEach(p => { if (!p.isDead) p.addScore(BOSS_BONUS, world); });
+        world.emit({ type: 'bossDefeated', bonus: BOSS_BONUS });
+    }
+}
+
+// A boss projectile. It flies straight through platforms and is gone once off screen.
+export class Fireball {
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    width = 20;
+    height = 20;
+    vx: number;
+    vy: number;
+    sprite = '🔥';
+    skin = 'fireball';
+    animation: Animation = createAnimation();
+
+    constructor(centerX: number, centerY: number, vx: number, vy: number) {
+        this.x = centerX - this.width / 2;
+        this.y = centerY - this.height / 2;
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.vx = vx;
+        this.vy = vy;
+    }
+
+    update() {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.x += this.vx;
+        this.y += this.vy;
+        advanceAnimation(this.animation);
+    }
+
+    isOffScreen() {
+        return this.x + this.width < 0 || this.x > GAME_WIDTH || this.y + this.height < 0 || this.y > GAME_HEIGHT;
+    }
+}
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Box, isStandingOn } from './collision';
+import { GAME_WIDTH, GRAVITY, PLAYER_JUMP } from './constants';
+import type { Enemy } from './enemies';
+import { NO_INPUT, PlayerInput } from './input';
+import type { Player } from './player';
+import { Random } from './random';
+import type { GameWorld } from './world';
+
+const JUMP_RISE = PLAYER_JUMP * PLAYER_JUMP / (2 * GRAVITY) - 15; // px a jump can safely lift the feet, with some to spare
+const AIM_TOLERANCE = 8; // px off the spot that still counts as being there
+const TAKEOFF_GAP = 6; // px between the player and a platform's end when jumping up beside it
+const BUMP_LEAD = 10; // Ticks from jumping to hitting the platform above; aim where the enemy will be by then
+const DANGER_RANGE = 90; // px an enemy walking towards the bot on its own level can come before it jumps clear
+const LEVEL_TOLERANCE = 20; // px of difference in feet height that still counts as the same level
+const SWARM_SIZE = 4; // Walking enemies at once that send the bot for the block
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard'];
+
+interface BotSkill {
+    reactionTicks: number; // How long something new is in view before the bot acts on it
+    mistakeRate: number; // Chance that a dodge or jump is fumbled, leaving the bot frozen for its reaction time
+}
+
+const SKILLS: Record<BotDifficulty, BotSkill> = {
+    easy: { reactionTicks: 20, mistakeRate: 0.3 },
+    normal: { reactionTicks: 10, mistakeRate: 0.1 },
+    hard: { reactionTicks: 3, mistakeRate: 0.02 },
+};
+
+// What the bot is going for. It sticks with one until its next look round, following the enemy as it moves.
+type Target = { kind: 'kick' | 'bump'; enemy: Enemy } | { kind: 'block' } | { kind: 'idle' };
+
+// Where the target puts the bot: a spot on a surface, and whether to jump once it gets there.
+interface Goal {
+    x: number;
+    surface: Box;
+    jump: boolean;
+}
+
+function centerX(box: Box) {
+    return box.x + box.width / 2;
+}
+
+function feet(box: Box) {
+    return box.y + box.height;
+}
+
+function spans(surface: Box, x: number) {
+    return x >= surface.x && x <= surface.x + surface.width;
+}
+
+// Everything a player can stand on, the block included while it lasts.
+function surfaces(world: GameWorld): Box[] {
+    return world.explosiveBlock.usesLeft > 0 ? [...world.platforms, world.explosiveBlock] : world.platforms;
+}
+
+// The first surface under (x, feetY), which is where something there lands or stands.
+function surfaceBelow(all: Box[], x: number, feetY: number): Box | null {
+    let below: Box | null = null;
+    for (const s of all) {
+        if (spans(s, x) && s.y >= feetY - LEVEL_TOLERANCE && (!below || s.y < below.y)) below = s;
+    }
+    return below;
+}
+
+// Whether a jump from `from` can come down on top of `to`.
+function canJumpOnto(from: Box, to: Box) {
+    return to.y < from.y && from.y - to.y <= JUMP_RISE;
+}
+
+function moveToward(from: number, to: number, jump = false): PlayerInput {
+    if (Math.abs(to - from) <= AIM_TOLERANCE) return { left: false, right: false, jump };
+    return { left: to < from, right: to > from, jump };
+}
+
+/**
+ * Plays a Player from what it can see in the world: it kicks flipped enemies,
+ * bumps walking ones from the platform underneath, jumps clear of any about
+ * to walk into it and goes for the block when enemies swarm. It gets about
+ * the way a player would, jumping up beside platforms and walking off their
+ * ends. Its output is a PlayerInput like any controller's, so the world never
+ * knows the difference and replays record it as they would a person.
+ *
+ * The difficulty sets how long it takes to notice a threat or pick a new
+ * target, and how often it fumbles. Its rolls come from its own Random, so a
+ * bot never disturbs the world's sequence.
+ */
+export class Bot {
+    playerIndex: number;
+    difficulty: BotDifficulty;
+    private rng: Random;
+    private target: Target = { kind: 'idle' };
+    private sinceLook = Infinity; // Ticks since the target was picked
+    private threatTicks = 0; // How long the current threat has been in view
+    private frozen = 0; // Ticks left of a fumble
+    private hop: Box | null = null; // The surface the bot jumped or stepped off for
+
+    constructor(playerIndex: number, difficulty: BotDifficulty, seed: number) {
+        this.playerIndex = playerIndex;
+        this.difficulty = difficulty;
+        this.rng = new Random(seed);
+    }
+
+    decide(world: GameWorld): PlayerInput {
+        const player = world.players[this.playerIndex];
+        if (!player || player.isDead || player.stunTimer > 0 || world.phase === 'gameOver') return NO_INPUT;
+        const skill = SKILLS[this.difficulty];
+        if (this.frozen > 0) {
+            this.frozen--;
+            return NO_INPUT;
+        }
+        const all = surfaces(world);
+        // A partner's head will do to stand on, as far as getting off it goes
+        const footing = [...all, ...world.players.filter(p => p !== player && !p.isDead)];
+        const here = player.onGround ? footing.find(s => isStandingOn(player, s)) ?? null : null;
+
+        const threat = here && this.threat(world, player);
+        this.threatTicks = threat ? this.threatTicks + 1 : 0;
+        if (threat && this.threatTicks > skill.reactionTicks) {
+            if (this.fumbled(skill)) return NO_INPUT;
+            // Jump clear, away from it
+            return { left: centerX(threat) > centerX(player), right: centerX(threat) <= centerX(player), jump: true };
+        }
+
+        if (++this.sinceLook > skill.reactionTicks) {
+            this.target = this.pickTarget(world, player, all);
+            this.sinceLook = 0;
+        }
+        const goal = this.goalFor(this.target, world, player, all) ?? this.idleGoal(all);
+        const move = here ? this.walk(player, here, goal, all) : this.fly(player, goal);
+        return move.jump && this.fumbled(skill) ? NO_INPUT : move;
+    }
+
+    // Rolls for a mistake, and if it is one, freezes the bot for its reaction time.
+    private fumbled(skill: BotSkill) {
+        if (this.rng.next() >= skill.mistakeRate) return false;
+        this.frozen = skill.reactionTicks;
+        return true;
+    }
+
+    // An enemy on the bot's level heading its way and about to reach it.
+    private threat(world: GameWorld, player: Player): Box | null {
+        const dangerous: (Box & { vx: number })[] = [
+            ...world.enemies.filter(e => !e.isFlipped && !e.isInPipe()),
+            ...world.projectiles,
+        ];
+        return dangerous.find(d => {
+            const gap = centerX(d) - centerX(player);
+            const approaching = gap * d.vx < 0 || Math.abs(gap) < player.width;
+            return approaching && Math.abs(gap) < DANGER_RANGE && Math.abs(feet(d) - feet(player)) < LEVEL_TOLERANCE;
+        }) ?? null;
+    }
+
+    // The block when enemies swarm, otherwise the nearest flipped enemy to kick, otherwise the nearest to bump.
+    private pickTarget(world: GameWorld, player: Player, all: Box[]): Target {
+        const walking = world.enemies.filter(e => !e.isFlipped && !e.isInPipe());
+        if (walking.length >= SWARM_SIZE && this.goalFor({ kind: 'block' }, world, player, all)) return { kind: 'block' };
+        const nearest = (kind: 'kick' | 'bump') => {
+            let best: Target | null = null;
+            let bestCost = Infinity;
+            world.enemies.forEach(enemy => {
+                const goal = this.goalFor({ kind, enemy }, world, player, all);
+                if (!goal) return;
+                const cost = Math.abs(goal.x - centerX(player)) + Math.abs(goal.surface.y - feet(player)) * 2;
+                if (cost < bestCost) {
+                    best = { kind, enemy };
+                    bestCost = cost;
+                }
+            });
+            return best;
+        };
+        return nearest('kick') ?? nearest('bump') ?? { kind: 'idle' };
+    }
+
+    // Where to go for `target` as things stand, or null if it is no longer there to be had.
+    private goalFor(target: Target, world: GameWorld, player: Player, all: Box[]): Goal | null {
+        switch (target.kind) {
+            case 'kick': return this.kickGoal(target.enemy, world, all);
+            case 'bump': return this.bumpGoal(target.enemy, world, player, all);
+            case 'block': return this.blockGoal(world, player, all);
+            case 'idle': return null;
+        }
+    }
+
+    // Walk into a flipped enemy.
+    private kickGoal(enemy: Enemy, world: GameWorld, all: Box[]): Goal | null {
+        if (!world.enemies.includes(enemy) || !enemy.isFlipped || enemy.isInPipe()) return null;
+        const surface = surfaceBelow(all, centerX(enemy), feet(enemy));
+        return surface && { x: centerX(enemy), surface, jump: false };
+    }
+
+    // Under a walking enemy, where a jump from the surface below can knock it over.
+    private bumpGoal(enemy: Enemy, world: GameWorld, player: Player, all: Box[]): Goal | null {
+        if (!world.enemies.includes(enemy) || enemy.isFlipped || enemy.isInPipe() || !enemy.onGround) return null;
+        const aim = centerX(enemy) + enemy.vx * BUMP_LEAD;
+        const platform = surfaceBelow(all, centerX(enemy), feet(enemy));
+        if (!platform || !spans(platform, aim)) return null;
+        return this.underneath(platform, aim, player, all);
+    }
+
+    // Under the block, while it has a use left and is ready.
+    private blockGoal(world: GameWorld, player: Player, all: Box[]): Goal | null {
+        const block = world.explosiveBlock;
+        if (block.usesLeft <= 0 || block.cooldown > 0) return null;
+        return this.underneath(block, centerX(block), player, all.filter(s => s !== block));
+    }
+
+    // Somewhere to stand below `above` at `x`, with room for the player and close enough to reach its underside.
+    private underneath(above: Box, x: number, player: Player, all: Box[]): Goal | null {
+        const underside = above.y + above.height;
+        const stand = surfaceBelow(all, x, underside + player.height);
+        if (!stand || stand.y - player.height - underside > JUMP_RISE) return null;
+        return { x, surface: stand, jump: true };
+    }
+
+    // Nothing to do: wait in the middle of the floor, where enemies end up.
+    private idleGoal(all: Box[]): Goal {
+        const floor = all.reduce((lowest, s) => s.y > lowest.y ? s : lowest);
+        return { x: centerX(floor), surface: floor, jump: false };
+    }
+
+    // On a surface: go along it to the goal, or towards the way up or down to the goal's surface.
+    private walk(player: Player, here: Box, goal: Goal, all: Box[]): PlayerInput {
+        const x = centerX(player);
+        this.hop = null;
+        if (goal.surface === here) {
+            const arrived = Math.abs(goal.x - x) <= AIM_TOLERANCE;
+            return moveToward(x, goal.x, goal.jump && arrived);
+        }
+        if (goal.surface.y > here.y) {
+            // Down: walk off the end nearer the goal, unless that end is the screen's edge and would wrap round
+            this.hop = goal.surface;
+            const leftEdge = here.x - player.width;
+            const rightEdge = here.x + here.width + player.width;
+            const edge = here.x <= 0 ? rightEdge : here.x + here.width >= GAME_WIDTH ? leftEdge : goal.x < x ? leftEdge : rightEdge;
+            return spans(here, goal.x) ? moveToward(x, edge) : moveToward(x, goal.x);
+        }
+        // Up: straight there if a jump reaches, otherwise by way of whatever reachable surface is nearest the goal
+        const next = canJumpOnto(here, goal.surface) ? goal.surface : all
+            .filter(s => s !== here && canJumpOnto(here, s))
+            .sort((a, b) => Math.abs(centerX(a) - goal.x) - Math.abs(centerX(b) - goal.x))[0];
+        if (!next) return moveToward(x, goal.x);
+        const takeoff = this.takeoff(player, here, next);
+        if (takeoff === null) return moveToward(x, goal.x);
+        const ready = Math.abs(takeoff - x) <= AIM_TOLERANCE;
+        if (ready) this.hop = next;
+        return moveToward(x, takeoff, ready);
+    }
+
+    // Where on `here` to jump from to land on `target`: just past one of its ends, whichever is nearer.
+    private takeoff(player: Player, here: Box, target: Box): number | null {
+        const x = centerX(player);
+        return [target.x - player.width / 2 - TAKEOFF_GAP, target.x + target.width + player.width / 2 + TAKEOFF_GAP]
+            .filter(t => spans(here, t))
+            .sort((a, b) => Math.abs(a - x) - Math.abs(b - x))[0] ?? null;
+    }
+
+    // In the air: hold off beside a platform being jumped for until clear of its top, then drift on.
+    private fly(player: Player, goal: Goal): PlayerInput {
+        const x = centerX(player);
+        const hop = this.hop;
+        if (!hop) return moveToward(x, goal.x);
+        if (hop.y < feet(player) && !spans(hop, x)) {
+            const side = x < centerX(hop) ? hop.x - player.width / 2 - TAKEOFF_GAP : hop.x + hop.width + player.width / 2 + TAKEOFF_GAP;
+            return moveToward(x, side);
+        }
+        return moveToward(x, spans(hop, goal.x) ? goal.x : centerX(hop));
+    }
+}
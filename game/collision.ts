@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from './constants';
+
+const CELL_SIZE = 80; // Broadphase cell; GAME_WIDTH is a whole number of them so columns wrap cleanly
+const COLUMNS = GAME_WIDTH / CELL_SIZE;
+const ROWS = Math.ceil(GAME_HEIGHT / CELL_SIZE);
+const LANDING_SLACK = 1; // px a body's feet may already be below a surface's top and still land on it
+const STANDING_TOLERANCE = 2;
+const BUMP_REACH = 20; // px either side of the hit point that a bump from below knocks over
+const BUMP_DEPTH = 10; // px above or below a surface's top that still counts as standing on it for a bump
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Something that falls. `prevY` is where it was before this tick's move, so tests can sweep the whole move.
+export interface Body extends Box {
+    prevY: number;
+    vy: number;
+}
+
+/**
+ * What a collision test found, for game logic to act on: a body came down on
+ * a surface, hit one from below, or overlapped another entity.
+ */
+export type Contact<A, B> =
+    | { type: 'landed'; body: A; other: B }
+    | { type: 'bumped'; body: A; other: B }
+    | { type: 'touched'; body: A; other: B };
+
+// --- NARROWPHASE ---
+// The playfield wraps horizontally, so boxes are also compared one screen width either side.
+export function overlapsX(a: Box, b: Box): boolean {
+    return [0, GAME_WIDTH, -GAME_WIDTH].some(shift => a.x + shift < b.x + b.width && a.x + shift + a.width > b.x);
+}
+
+export function overlaps(a: Box, b: Box): boolean {
+    return overlapsX(a, b) && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+// How far `a` has to move sideways to stop overlapping `b`; negative is to the left, 0 when they do not overlap.
+export function separationX(a: Box, b: Box): number {
+    for (const shift of [0, GAME_WIDTH, -GAME_WIDTH]) {
+        const ax = a.x + shift;
+        if (ax < b.x + b.width && ax + a.width > b.x) return ax < b.x ? b.x - (ax + a.width) : b.x + b.width - ax;
+    }
+    return 0;
+}
+
+// Swept: the body's feet crossed the surface's top while falling this tick, however fast it was going.
+export function isLanding(body: Body, surface: Box): boolean {
+    return body.vy >= 0 && overlapsX(body, surface) &&
+        body.prevY + body.height <= surface.y + LANDING_SLACK && body.y + body.height >= surface.y;
+}
+
+// Swept: the body's head crossed the surface's underside on the way up this tick.
+export function isBumping(body: Body, surface: Box): boolean {
+    return body.vy < 0 && overlapsX(body, surface) &&
+        body.prevY >= surface.y + surface.height && body.y < surface.y + surface.height;
+}
+
+export function isStandingOn(body: Box, surface: Box): boolean {
+    return overlapsX(body, surface) && Math.abs(body.y + body.height - surface.y) <= STANDING_TOLERANCE;
+}
+
+// The strip along a surface's top that a bump from below at `x` reaches.
+export function bumpZone(surface: Box, x: number): Box {
+    return { x: x - BUMP_REACH, y: surface.y - BUMP_DEPTH, width: BUMP_REACH * 2, height: BUMP_DEPTH * 2 };
+}
+
+// Whether the body's feet are in `zone`, such as a bumpZone.
+export function hasFeetIn(body: Box, zone: Box): boolean {
+    const feet = body.y + body.height;
+    return overlapsX(body, zone) && feet > zone.y && feet < zone.y + zone.height;
+}
+
+// --- RESOLUTION ---
+// Put `body` down on the highest surface it fell onto this tick, if any.
+export function landOn<A extends Body, S extends Box>(body: A, surfaces: S[]): Contact<A, S> | null {
+    let landed: S | null = null;
+    for (const s of surfaces) {
+        if (isLanding(body, s) && (!landed || s.y < landed.y)) landed = s;
+    }
+    if (!landed) return null;
+    body.y = landed.y - body.height;
+    body.vy = 0;
+    return { type: 'landed', body, other: landed };
+}
+
+// Stop `body` against the lowest surface it hit from below this tick, if any.
+export function bumpInto<A extends Body, S extends Box>(body: A, surfaces: S[]): Contact<A, S> | null {
+    let bumped: S | null = null;
+    for (const s of surfaces) {
+        if (isBumping(body, s) && (!bumped || s.y > bumped.y)) bumped = s;
+    }
+    if (!bumped) return null;
+    body.y = bumped.y + bumped.height;
+    body.vy = 0;
+    return { type: 'bumped', body, other: bumped };
+}
+
+// --- BROADPHASE ---
+function clampRow(row: number) {
+    return Math.max(0, Math.min(ROWS - 1, row));
+}
+
+/**
+ * A uniform grid over the playfield. Boxes are filed under every cell they
+ * cover, with columns wrapping at GAME_WIDTH, so a query only looks at what
+ * is nearby. Results come back in insertion order, which keeps everything
+ * that consumes them deterministic.
+ */
+export class SpatialGrid<T extends Box> {
+    private items: T[] = [];
+    private cells = new Map<number, number[]>(); // Cell key -> indices into `items`
+
+    constructor(items: T[] = []) {
+        items.forEach(item => this.insert(item));
+    }
+
+    insert(item: T) {
+        const index = this.items.push(item) - 1;
+        this.forEachCell(item, key => {
+            const cell = this.cells.get(key);
+            if (cell) cell.push(index);
+            else this.cells.set(key, [index]);
+        });
+    }
+
+    // Everything overlapping `box`.
+    query(box: Box): T[] {
+        return this.candidates(box).map(index => this.items[index]).filter(item => item !== box && overlaps(box, item));
+    }
+
+    // Every overlapping pair among the items, each once, in insertion order.
+    pairs(): [T, T][] {
+        const pairs: [T, T][] = [];
+        this.items.forEach((item, i) => {
+            this.candidates(item).forEach(j => {
+                if (j > i && overlaps(item, this.items[j])) pairs.push([item, this.items[j]]);
+            });
+        });
+        return pairs;
+    }
+
+    // Indices of the items sharing a cell with `box`, in insertion order.
+    private candidates(box: Box): number[] {
+        const found = new Set<number>();
+        this.forEachCell(box, key => this.cells.get(key)?.forEach(index => found.add(index)));
+        return [...found].sort((a, b) => a - b);
+    }
+
+    private forEachCell(box: Box, visit: (key: number) => void) {
+        const firstColumn = Math.floor(box.x / CELL_SIZE);
+        const lastColumn = Math.min(Math.floor((box.x + box.width) / CELL_SIZE), firstColumn + COLUMNS - 1);
+        // Anything above or below the playfield is filed in the top or bottom row
+        const firstRow = clampRow(Math.floor(box.y / CELL_SIZE));
+        const lastRow = clampRow(Math.floor((box.y + box.height) / CELL_SIZE));
+        for (let column = firstColumn; column <= lastColumn; column++) {
+            const wrapped = ((column % COLUMNS) + COLUMNS) % COLUMNS;
+            for (let row = firstRow; row <= lastRow; row++) visit(row * COLUMNS + wrapped);
+        }
+    }
+}
+
+// Every item in `grid` that `body` overlaps, as touch contacts.
+export function findTouches<A extends Box, B extends Box>(body: A, grid: SpatialGrid<B>): Contact<A, B>[] {
+    return grid.query(body).map(other => ({ type: 'touched', body, other }));
+}
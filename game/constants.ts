@@ -0,0 +1,30 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- GAME CONSTANTS ---
+export const GAME_WIDTH = 960;
+export const GAME_HEIGHT = 720;
+export const GRAVITY = 0.6;
+export const PLAYER_SPEED = 5;
+export const PLAYER_JUMP = -15;
+export const ENEMY_SPEED = 1.5;
+export const FLIP_DURATION = 5000;
+export const LIVES_START = 3;
+export const EXTRA_LIFE_SCORE = 20000;
+export const LEVEL_TRANSITION_TIME = 1500;
+export const EXPLOSIVE_BLOCK_USES = 3;
+export const TICK_MS = 1000 / 60; // Fixed simulation step; all per-tick physics constants assume it
+
+// --- SCORING ---
+export const BUMP_POINTS = 50; // Per enemy hit, and for the first one a bump or blast knocks over
+export const COMBO_POINTS = [200, 400, 800]; // Each link of a combo; past the end, every link is an extra life
+export const COMBO_WINDOW = 1500; // ms after a kick in which the next one carries the chain on
+
+// --- VERSUS ---
+export const VERSUS_LIVES = 3; // Per round
+export const VERSUS_KILLS_TO_WIN = 5; // Enemy kicks and knockouts of the other player both count
+export const VERSUS_ROUNDS_TO_WIN = 3;
+export const ROUND_RESULTS_TIME = 4000;
@@ -0,0 +1,369 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, createAnimation, playClip } from './animation';
+import { landOn } from './collision';
+import { ENEMY_SPEED, FLIP_DURATION, GAME_WIDTH, GRAVITY, TICK_MS } from './constants';
+import { FROST_COLOR } from './particle';
+import type { EnemyType } from './levelPack';
+import type { Platform } from './platforms';
+import type { Random } from './random';
+import { BOTTOM_PIPES, EMERGE_TIME, Pipe, PIPE_SIZE, pipeMouthX, PIPE_TRAVEL_TIME, topPipeOnSide } from './waves';
+import type { GameWorld } from './world';
+
+const FROST_SPACING = 20; // px between the bursts of frost along a platform an IceBomber freezes
+const RECOVER_WARNING = 1000; // The last ms of a flip, when the enemy shakes before getting up
+
+/**
+ * How one enemy type escalates. Every time it gets back up from a flip it
+ * moves up a tier, up to one per entry in `tierSkins`: it changes colour and
+ * its speed is multiplied by `tierSpeedUp`. The last enemy left on a level
+ * enrages and is multiplied by `rageSpeedUp` on top.
+ */
+export interface Escalation {
+    tierSkins: string[];
+    tierSpeedUp: number;
+    rageSpeedUp: number;
+}
+
+const NO_ESCALATION: Escalation = { tierSkins: [], tierSpeedUp: 1, rageSpeedUp: 1 };
+// Slow walkers gain the most from each tier; the fast ones are already quick
+const ESCALATIONS: Record<'basic' | 'fast' | 'jumping' | 'tough', Escalation> = {
+    basic: { tierSkins: ['basic.tier1', 'basic.tier2'], tierSpeedUp: 1.35, rageSpeedUp: 1.6 },
+    fast: { tierSkins: ['fast.tier1', 'fast.tier2'], tierSpeedUp: 1.15, rageSpeedUp: 1.3 },
+    jumping: { tierSkins: ['jumping.tier1', 'jumping.tier2'], tierSpeedUp: 1.25, rageSpeedUp: 1.5 },
+    tough: { tierSkins: ['toughAngry.tier1', 'toughAngry.tier2'], tierSpeedUp: 1.4, rageSpeedUp: 1.8 },
+};
+
+// What an enemy is, for reporting; the level pack's types plus the boss, which packs place by level instead.
+export type EnemyKind = EnemyType | 'boss';
+
+export abstract class Enemy {
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    width: number;
+    height: number;
+    vx: number;
+    vy: number;
+    sprite: string; // Emoji, drawn when the sprite atlas is unavailable
+    skin: string; // Sprite atlas entry
+    animation: Animation;
+    isFlipped: boolean;
+    flipTimer: number;
+    onGround: boolean;
+    hitAnimationTimer: number;
+    pipeTimer: number; // ms left inside a pipe, the last EMERGE_TIME of them spent sliding out
+    pipeDir: number; // Which way it slides out
+    tier: number; // Flips recovered from, up to the escalation's last tier
+    enraged: boolean;
+
+    constructor(x: number, y: number, width: number, height: number, sprite: string, skin: string) {
+        this.width = width;
+        this.height = height;
+        this.x = x;
+        this.y = y;
+        this.prevX = x;
+        this.prevY = y;
+        this.vx = 0;
+        this.vy = 0;
+        this.sprite = sprite;
+        this.skin = skin;
+        this.animation = createAnimation('run');
+        this.isFlipped = false;
+        this.flipTimer = 0;
+        this.onGround = false;
+        this.hitAnimationTimer = 0;
+        this.pipeTimer = 0;
+        this.pipeDir = 0;
+        this.tier = 0;
+        this.enraged = false;
+    }
+
+    abstract kind(): EnemyKind;
+
+    // Per-type tuning; types that never flip over have none.
+    escalation(): Escalation {
+        return NO_ESCALATION;
+    }
+
+    // Walking pace at tier 0, before any rage; 0 for types that stay put.
+    baseSpeed() {
+        return 0;
+    }
+
+    // How fast it walks now. Only the direction of vx is its own: walkers that meet swap velocities.
+    private speed() {
+        const { tierSpeedUp, rageSpeedUp } = this.escalation();
+        return this.baseSpeed() * tierSpeedUp ** this.tier * (this.enraged ? rageSpeedUp : 1);
+    }
+
+    update(world: GameWorld) {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        if (this.hitAnimationTimer > 0) this.hitAnimationTimer -= TICK_MS;
+
+        if (this.isFlipped) {
+            this.flipTimer -= TICK_MS;
+            if (this.flipTimer <= 0) {
+                this.isFlipped = false;
+                this.y -= 5;
+                this.escalate(world);
+            }
+        }
+
+        // All the way into a bottom pipe -> back out of the top pipe on the same side. Anywhere else the screen wraps.
+        const bottomPipe = BOTTOM_PIPES.find(p => this.y + this.height > p.y &&
+            (p.dir === -1 ? this.x + this.width <= pipeMouthX(p) : this.x >= pipeMouthX(p)));
+        if (bottomPipe) {
+            this.enterPipe(topPipeOnSide(world.spawnPoints, bottomPipe.dir), PIPE_TRAVEL_TIME);
+            return;
+        }
+        if (this.x + this.width < 0) this.x = GAME_WIDTH;
+        if (this.x > GAME_WIDTH) this.x = -this.width;
+
+        this.vy += GRAVITY;
+        this.y += this.vy;
+        // Enemies only land on platforms, the floor included; they jump up through them from below
+        const landed = landOn(this, world.platforms);
+        this.onGround = landed !== null;
+        if (landed && !landed.other.isFloor) this.x += landed.other.vx;
+
+        advanceAnimation(this.animation);
+        if (this.isFlipped) playClip(this.animation, this.isRecovering() ? 'recovering' : 'flipped');
+        else playClip(this.animation, this.onGround ? 'run' : 'jump');
+    }
+
+    // About to get back up; the renderer shakes it as a warning.
+    isRecovering() {
+        return this.isFlipped && this.flipTimer < RECOVER_WARNING;
+    }
+
+    // Back on its feet after a flip: up a tier if there is one left.
+    private escalate(world: GameWorld) {
+        const { tierSkins } = this.escalation();
+        if (this.tier >= tierSkins.length) return;
+        this.tier++;
+        this.skin = tierSkins[this.tier - 1];
+        this.vx = Math.sign(this.vx) * this.speed();
+        world.emit({ type: 'enemyRecovered', tier: this.tier, x: this.x + this.width / 2, y: this.y });
+    }
+
+    // The last enemy on the level speeds up for good.
+    enrage(world: GameWorld) {
+        const { rageSpeedUp } = this.escalation();
+        if (this.enraged || rageSpeedUp === 1) return;
+        this.enraged = true;
+        this.vx = Math.sign(this.vx) * this.speed();
+        world.emit({ type: 'enemyEnraged', x: this.x + this.width / 2, y: this.y });
+    }
+
+    // Put the enemy just inside `pipe`'s mouth, out of sight for `travel` ms before it slides out.
+    enterPipe(pipe: Pipe, travel = 0) {
+        this.pipeTimer = travel + EMERGE_TIME;
+        this.pipeDir = pipe.dir;
+        this.x = pipe.dir === 1 ? pipeMouthX(pipe) - this.width : pipeMouthX(pipe);
+        this.y = pipe.y + PIPE_SIZE - this.height;
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.vx = pipe.dir * Math.abs(this.vx);
+        this.vy = 0;
+        this.onGround = false;
+        this.isFlipped = false;
+        this.flipTimer = 0;
+    }
+
+    // In a pipe nothing can touch the enemy, and it touches nothing.
+    isInPipe() {
+        return this.pipeTimer > 0;
+    }
+
+    // Travelling between pipes rather than sliding out of one.
+    isOutOfSight() {
+        return this.pipeTimer > EMERGE_TIME;
+    }
+
+    // Stands in for update() while in a pipe: wait, then walk out of the mouth.
+    updateInPipe() {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.pipeTimer -= TICK_MS;
+        if (this.pipeTimer < EMERGE_TIME) this.x += this.pipeDir * this.width / EMERGE_TIME * TICK_MS;
+        advanceAnimation(this.animation);
+        playClip(this.animation, 'run');
+    }
+
+    // `byPlayerId` is who bumped it, or null for anything else.
+    flip(_byPlayerId: number | null = null) {
+        if (!this.isFlipped) {
+            this.isFlipped = true;
+            this.flipTimer = FLIP_DURATION;
+            this.vy = -5;
+        }
+    }
+
+    // Caught in an ExplosiveBlock blast; for most enemies that is the same as a bump.
+    blast() {
+        this.flip();
+    }
+}
+
+export class BasicEnemy extends Enemy {
+    constructor(rng: Random, x: number, y: number) {
+        super(x, y, 36, 36, '👾', 'basic');
+        this.vx = (rng.next() < 0.5 ? 1 : -1) * this.baseSpeed();
+    }
+    baseSpeed() {
+        return ENEMY_SPEED;
+    }
+    kind() {
+        return 'basic' as const;
+    }
+    escalation() {
+        return ESCALATIONS.basic;
+    }
+    update(world: GameWorld) {
+        super.update(world);
+        if (!this.isFlipped) this.x += this.vx;
+    }
+}
+
+export class FastEnemy extends Enemy {
+    constructor(rng: Random, x: number, y: number) {
+        super(x, y, 36, 36, '👻', 'fast');
+        this.vx = (rng.next() < 0.5 ? 1 : -1) * this.baseSpeed();
+    }
+    baseSpeed() {
+        return ENEMY_SPEED * 1.8;
+    }
+    kind() {
+        return 'fast' as const;
+    }
+    escalation() {
+        return ESCALATIONS.fast;
+    }
+    update(world: GameWorld) {
+        super.update(world);
+        if (!this.isFlipped) this.x += this.vx;
+    }
+}
+
+export class JumpingEnemy extends Enemy {
+    jumpCooldown: number;
+    constructor(rng: Random, x: number, y: number) {
+        super(x, y, 36, 36, '👽', 'jumping');
+        this.vx = (rng.next() < 0.5 ? 1 : -1) * this.baseSpeed();
+        this.jumpCooldown = rng.int(80, 200);
+    }
+    baseSpeed() {
+        return ENEMY_SPEED * 0.8;
+    }
+    kind() {
+        return 'jumping' as const;
+    }
+    escalation() {
+        return ESCALATIONS.jumping;
+    }
+    update(world: GameWorld) {
+        super.update(world);
+        this.jumpCooldown--;
+        if (this.onGround && this.jumpCooldown <= 0 && !this.isFlipped) {
+            this.vy = -8;
+            this.onGround = false;
+            this.jumpCooldown = world.rng.int(100, 300);
+        }
+        if (!this.isFlipped) this.x += this.vx;
+    }
+}
+
+export class IceBomberEnemy extends Enemy {
+    timer: number;
+    platform: Platform | null;
+    constructor(rng: Random, x: number, y: number, platform: Platform) {
+        super(x, y, 36, 36, '💣', 'iceBomber');
+        this.vx = 0;
+        this.timer = rng.int(3000, 5000);
+        this.platform = platform;
+        this.y = platform.y - this.height;
+        this.x = platform.x + (platform.width / 2) - (this.width / 2);
+        this.prevX = this.x;
+        this.prevY = this.y;
+    }
+    update(world: GameWorld) {
+        super.update(world);
+        this.timer -= TICK_MS;
+        if (this.timer <= 0 && !this.isFlipped) {
+            this.explode(world);
+        }
+        if (this.platform) {
+            this.x = this.platform.x + (this.platform.width / 2) - (this.width / 2);
+        }
+    }
+    explode(world: GameWorld) {
+        world.remove(this);
+        world.emit({ type: 'bomberExploded', x: this.x + this.width / 2, y: this.y + this.height / 2 });
+        world.particles.emit('death', this.x, this.y, this.sprite, this.skin, 40);
+        if (!this.platform) return;
+        this.platform.freeze();
+        // Frost along the whole platform, not just where the bomber stood
+        for (let x = this.platform.x; x < this.platform.x + this.platform.width; x += FROST_SPACING) {
+            world.particles.emit('freezeSparkle', x, this.platform.y, FROST_COLOR, null, 4);
+        }
+    }
+    kind() {
+        return 'iceBomber' as const;
+    }
+    // A bump lights the fuse...
+    flip() {
+        this.timer = Math.min(this.timer, 100);
+    }
+    // ...but a blast knocks it over, and it can be kicked away before it gets up and goes off.
+    blast() {
+        super.flip();
+    }
+}
+
+export class ToughEnemy extends Enemy {
+    hitsLeft: number;
+    hitBy: (number | null)[]; // Who landed each hit so far: a player id, or null for a blast
+    constructor(rng: Random, x: number, y: number) {
+        super(x, y, 40, 40, '👹', 'tough');
+        this.vx = (rng.next() < 0.5 ? 1 : -1) * this.baseSpeed();
+        this.hitsLeft = 2;
+        this.hitBy = [];
+    }
+    flip(byPlayerId: number | null = null) {
+        if (this.isFlipped) return;
+        this.hitsLeft--;
+        this.hitBy.push(byPlayerId);
+        this.vy = -3;
+        if (this.hitsLeft <= 0) {
+            super.flip();
+        } else {
+            this.hitAnimationTimer = 300;
+            this.sprite = '👺';
+            this.skin = 'toughAngry';
+        }
+    }
+    baseSpeed() {
+        return ENEMY_SPEED * 0.7;
+    }
+    kind() {
+        return 'tough' as const;
+    }
+    escalation() {
+        return ESCALATIONS.tough;
+    }
+    // Every hit on it came from `playerId`'s bumps, and it has never got back up.
+    isStreakBy(playerId: number) {
+        return this.tier === 0 && this.hitBy.every(id => id === playerId);
+    }
+    update(world: GameWorld) {
+        super.update(world);
+        if (!this.isFlipped) this.x += this.vx;
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { EnemyKind } from './enemies';
+import type { PowerUpType } from './powerups';
+
+/**
+ * Things that happened during one tick, for the app to react to (sound and
+ * the like). The simulation only records them; it never reads them back.
+ */
+export type GameEvent =
+    | { type: 'jump'; playerId: number }
+    | { type: 'bump'; playerId: number; x: number; y: number }
+    | { type: 'enemyFlipped'; playerId: number; enemy: EnemyKind; x: number; y: number }
+    | { type: 'enemyHit'; playerId: number; enemy: EnemyKind; x: number; y: number } // Bumped but still standing
+    | { type: 'enemyRecovered'; tier: number; x: number; y: number }
+    | { type: 'enemyEnraged'; x: number; y: number }
+    | { type: 'enemyKicked'; playerId: number; enemy: EnemyKind; streak: boolean; x: number; y: number } // `streak`: it took no hits but this player's
+    | { type: 'blockHit'; x: number; y: number } // Level-wide: whoever hit it, the block is used
+    | { type: 'bomberExploded'; x: number; y: number }
+    | { type: 'playerDied'; playerId: number; livesLeft: number }
+    | { type: 'extraLife'; playerId: number }
+    | { type: 'powerUpSpawned'; powerUp: PowerUpType; x: number; y: number }
+    | { type: 'powerUpCollected'; playerId: number; powerUp: PowerUpType; x: number; y: number }
+    | { type: 'shieldBroken'; playerId: number }
+    | { type: 'playerStunned'; playerId: number; byPlayerId: number }
+    | { type: 'playerKnockedOut'; playerId: number; byPlayerId: number }
+    | { type: 'roundOver'; round: number; winnerId: number | null }
+    | { type: 'bossHit'; health: number; maxHealth: number }
+    | { type: 'fireball'; x: number; y: number }
+    | { type: 'groundPound'; x: number; y: number }
+    | { type: 'bossDefeated'; bonus: number }
+    | { type: 'levelCleared'; level: number }
+    | { type: 'levelStarted'; level: number; boss: boolean }
+    | { type: 'coinCollected'; playerId: number; x: number; y: number }
+    | { type: 'bonusStageOver'; perfect: boolean }
+    | { type: 'gameOver' };
+
+export type GameEventType = GameEvent['type'];
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// What one player is doing during a single tick. `jump` is an edge: it is only
+// set on the tick the jump was pressed, not while the button is held.
+export interface PlayerInput {
+    left: boolean;
+    right: boolean;
+    jump: boolean;
+}
+
+// One entry per player, in player order.
+export type InputFrame = PlayerInput[];
+
+export const NO_INPUT: PlayerInput = { left: false, right: false, jump: false };
+
+// Inputs as a 3-bit mask, the compact form used by replays and online play.
+export function encodeInput(state: PlayerInput) {
+    return (state.left ? 1 : 0) | (state.right ? 2 : 0) | (state.jump ? 4 : 0);
+}
+
+export function decodeInput(bits: number): PlayerInput {
+    return { left: (bits & 1) !== 0, right: (bits & 2) !== 0, jump: (bits & 4) !== 0 };
+}
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from './constants';
+
+/*
+ * Level pack format (version 1). A pack is plain JSON:
+ *
+ *   layouts      Platform arrangements. The floor is implicit and never listed.
+ *   layoutCycle  Which layout each level uses: every `levelsPerLayout` levels the
+ *                next id in `order` is picked, wrapping around at the end. A
+ *                bonus stage is played before each change of layout.
+ *   enemyCount   Enemies per level: base + floor(min(level, maxLevel) * perLevel).
+ *   rosters      Enemy mix. The roster with the highest `fromLevel` not above the
+ *                current level applies; each enemy is rolled by relative weight.
+ *   waves        Optional release timing, picked by `fromLevel` like rosters:
+ *                the first enemy comes out of a top pipe after `delay` ms, the
+ *                rest every `interval` ms while fewer than `maxOnScreen` are out.
+ *   boss         Optional. Every `every`th level is a boss fight instead of the
+ *                roster; the boss has `health` hits, plus `healthPerEncounter`
+ *                for each boss already met.
+ */
+
+export const LEVEL_PACK_VERSION = 1;
+
+export const ENEMY_TYPES = ['basic', 'fast', 'jumping', 'iceBomber', 'tough'] as const;
+export type EnemyType = typeof ENEMY_TYPES[number];
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PlatformData {
+    x: number;
+    y: number;
+    width: number;
+    height?: number;
+    mobile?: { speed: number; range: number };
+}
+
+export interface LayoutData {
+    id: string;
+    platforms: PlatformData[];
+    explosiveBlock: Point;
+    spawnPoints: Point[];
+}
+
+export interface RosterEntry {
+    type: EnemyType;
+    weight: number;
+}
+
+export interface Roster {
+    fromLevel: number;
+    enemies: RosterEntry[];
+}
+
+export interface WaveTiming {
+    fromLevel: number;
+    delay: number;
+    interval: number;
+    maxOnScreen: number;
+}
+
+export interface LevelPack {
+    version: number;
+    name: string;
+    layouts: LayoutData[];
+    layoutCycle: { levelsPerLayout: number; order: string[] };
+    enemyCount: { base: number; perLevel: number; maxLevel: number };
+    rosters: Roster[];
+    waves?: WaveTiming[];
+    boss?: { every: number; health: number; healthPerEncounter: number };
+}
+
+// Everything setupLevel needs for one level number.
+export interface LevelDefinition {
+    layout: LayoutData;
+    enemyCount: number;
+    roster: RosterEntry[];
+    waves: WaveTiming;
+    bossHealth: number | null; // Set on boss levels
+}
+
+// Used by packs that leave `waves` out.
+export const DEFAULT_WAVES: WaveTiming[] = [{ fromLevel: 1, delay: 1000, interval: 2000, maxOnScreen: 6 }];
+
+export class LevelPackError extends Error {
+    path: string;
+
+    constructor(path: string, problem: string) {
+        super(`Level pack error at ${path}: ${problem}`);
+        this.name = 'LevelPackError';
+        this.path = path;
+    }
+}
+
+// --- VALIDATION ---
+function describe(value: unknown) {
+    if (Array.isArray(value)) return 'an array';
+    if (value === null) return 'null';
+    return typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? 'an object' : String(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new LevelPackError(path, `expected an object, got ${describe(value)}`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string, minLength = 0): unknown[] {
+    if (!Array.isArray(value)) throw new LevelPackError(path, `expected an array, got ${describe(value)}`);
+    if (value.length < minLength) throw new LevelPackError(path, `expected at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}`);
+    return value;
+}
+
+function expectString(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.length === 0) {
+        throw new LevelPackError(path, `expected a non-empty string, got ${describe(value)}`);
+    }
+    return value;
+}
+
+function expectNumber(value: unknown, path: string, opts: { min?: number; max?: number; integer?: boolean; nonZero?: boolean } = {}): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new LevelPackError(path, `expected a number, got ${describe(value)}`);
+    }
+    if (opts.integer && !Number.isInteger(value)) throw new LevelPackError(path, `expected a whole number, got ${value}`);
+    if (opts.min !== undefined && value < opts.min) throw new LevelPackError(path, `must be at least ${opts.min}, got ${value}`);
+    if (opts.max !== undefined && value > opts.max) throw new LevelPackError(path, `must be at most ${opts.max}, got ${value}`);
+    if (opts.nonZero && value === 0) throw new LevelPackError(path, 'must not be 0');
+    return value;
+}
+
+function parsePoint(value: unknown, path: string): Point {
+    const obj = expectObject(value, path);
+    return {
+        x: expectNumber(obj.x, `${path}.x`, { min: 0, max: GAME_WIDTH }),
+        y: expectNumber(obj.y, `${path}.y`, { min: 0, max: GAME_HEIGHT }),
+    };
+}
+
+function parsePlatform(value: unknown, path: string): PlatformData {
+    const obj = expectObject(value, path);
+    const platform: PlatformData = {
+        x: expectNumber(obj.x, `${path}.x`, { min: 0 }),
+        y: expectNumber(obj.y, `${path}.y`, { min: 0, max: GAME_HEIGHT }),
+        width: expectNumber(obj.width, `${path}.width`, { min: 1 }),
+    };
+    if (obj.height !== undefined) platform.height = expectNumber(obj.height, `${path}.height`, { min: 1 });
+
+    // The whole sweep of a mobile platform has to stay on screen, not just its start
+    let minX = platform.x;
+    let maxX = platform.x + platform.width;
+    if (obj.mobile !== undefined) {
+        const mobile = expectObject(obj.mobile, `${path}.mobile`);
+        const speed = expectNumber(mobile.speed, `${path}.mobile.speed`, { nonZero: true });
+        const range = expectNumber(mobile.range, `${path}.mobile.range`, { min: 1 });
+        platform.mobile = { speed, range };
+        if (speed < 0) minX -= range;
+        else maxX += range;
+    }
+    if (minX < 0 || maxX > GAME_WIDTH) {
+        throw new LevelPackError(path, `platform spans x ${minX}..${maxX}, outside the 0..${GAME_WIDTH} screen`);
+    }
+    return platform;
+}
+
+function parseLayout(value: unknown, path: string): LayoutData {
+    const obj = expectObject(value, path);
+    return {
+        id: expectString(obj.id, `${path}.id`),
+        platforms: expectArray(obj.platforms, `${path}.platforms`).map((p, i) => parsePlatform(p, `${path}.platforms[${i}]`)),
+        explosiveBlock: parsePoint(obj.explosiveBlock, `${path}.explosiveBlock`),
+        spawnPoints: expectArray(obj.spawnPoints, `${path}.spawnPoints`, 1).map((p, i) => parsePoint(p, `${path}.spawnPoints[${i}]`)),
+    };
+}
+
+function parseRoster(value: unknown, path: string): Roster {
+    const obj = expectObject(value, path);
+    return {
+        fromLevel: expectNumber(obj.fromLevel, `${path}.fromLevel`, { min: 1, integer: true }),
+        enemies: expectArray(obj.enemies, `${path}.enemies`, 1).map((e, i) => {
+            const entryPath = `${path}.enemies[${i}]`;
+            const entry = expectObject(e, entryPath);
+            const type = expectString(entry.type, `${entryPath}.type`);
+            if (!(ENEMY_TYPES as readonly string[]).includes(type)) {
+                throw new LevelPackError(`${entryPath}.type`, `unknown enemy type "${type}" (expected one of ${ENEMY_TYPES.join(', ')})`);
+            }
+            return { type: type as EnemyType, weight: expectNumber(entry.weight, `${entryPath}.weight`, { min: 0, nonZero: true }) };
+        }),
+    };
+}
+
+function parseWaves(value: unknown, path: string): WaveTiming {
+    const obj = expectObject(value, path);
+    return {
+        fromLevel: expectNumber(obj.fromLevel, `${path}.fromLevel`, { min: 1, integer: true }),
+        delay: expectNumber(obj.delay, `${path}.delay`, { min: 0 }),
+        interval: expectNumber(obj.interval, `${path}.interval`, { min: 0 }),
+        maxOnScreen: expectNumber(obj.maxOnScreen, `${path}.maxOnScreen`, { min: 1, integer: true }),
+    };
+}
+
+// Like rosters, level-picked lists must start at level 1 and go up.
+function checkLevelOrder(entries: { fromLevel: number }[], path: string, noun: string) {
+    if (entries[0].fromLevel !== 1) {
+        throw new LevelPackError(`${path}[0].fromLevel`, `the first ${noun} must start at level 1, got ${entries[0].fromLevel}`);
+    }
+    entries.forEach((entry, i) => {
+        if (i > 0 && entry.fromLevel <= entries[i - 1].fromLevel) {
+            throw new LevelPackError(`${path}[${i}].fromLevel`, `${path} must be in increasing level order (${entry.fromLevel} follows ${entries[i - 1].fromLevel})`);
+        }
+    });
+}
+
+/**
+ * Checks untrusted JSON against the level pack format and returns a typed copy.
+ * Throws a LevelPackError naming the first offending field.
+ */
+export function parseLevelPack(data: unknown): LevelPack {
+    const obj = expectObject(data, 'pack');
+    const version = expectNumber(obj.version, 'version', { integer: true });
+    if (version !== LEVEL_PACK_VERSION) {
+        throw new LevelPackError('version', `unsupported version ${version} (this game reads version ${LEVEL_PACK_VERSION})`);
+    }
+
+    const layouts = expectArray(obj.layouts, 'layouts', 1).map((l, i) => parseLayout(l, `layouts[${i}]`));
+    const layoutIds = new Set<string>();
+    layouts.forEach((layout, i) => {
+        if (layoutIds.has(layout.id)) throw new LevelPackError(`layouts[${i}].id`, `duplicate layout id "${layout.id}"`);
+        layoutIds.add(layout.id);
+    });
+
+    const cycle = expectObject(obj.layoutCycle, 'layoutCycle');
+    const order = expectArray(cycle.order, 'layoutCycle.order', 1).map((id, i) => {
+        const path = `layoutCycle.order[${i}]`;
+        const layoutId = expectString(id, path);
+        if (!layoutIds.has(layoutId)) throw new LevelPackError(path, `no layout with id "${layoutId}"`);
+        return layoutId;
+    });
+
+    const count = expectObject(obj.enemyCount, 'enemyCount');
+    const rosters = expectArray(obj.rosters, 'rosters', 1).map((r, i) => parseRoster(r, `rosters[${i}]`));
+    checkLevelOrder(rosters, 'rosters', 'roster');
+    let waves: WaveTiming[] | undefined;
+    if (obj.waves !== undefined) {
+        waves = expectArray(obj.waves, 'waves', 1).map((w, i) => parseWaves(w, `waves[${i}]`));
+        checkLevelOrder(waves, 'waves', 'wave timing');
+    }
+
+    return {
+        version,
+        name: expectString(obj.name, 'name'),
+        layouts,
+        layoutCycle: {
+            levelsPerLayout: expectNumber(cycle.levelsPerLayout, 'layoutCycle.levelsPerLayout', { min: 1, integer: true }),
+            order,
+        },
+        enemyCount: {
+            base: expectNumber(count.base, 'enemyCount.base', { min: 0, integer: true }),
+            perLevel: expectNumber(count.perLevel, 'enemyCount.perLevel', { min: 0 }),
+            maxLevel: expectNumber(count.maxLevel, 'enemyCount.maxLevel', { min: 1, integer: true }),
+        },
+        rosters,
+        waves,
+        boss: obj.boss === undefined ? undefined : parseBoss(obj.boss),
+    };
+}
+
+function parseBoss(value: unknown) {
+    const boss = expectObject(value, 'boss');
+    return {
+        every: expectNumber(boss.every, 'boss.every', { min: 1, integer: true }),
+        health: expectNumber(boss.health, 'boss.health', { min: 1, integer: true }),
+        healthPerEncounter: expectNumber(boss.healthPerEncounter, 'boss.healthPerEncounter', { min: 0, integer: true }),
+    };
+}
+
+// --- RESOLUTION ---
+export function resolveLevel(pack: LevelPack, levelNum: number): LevelDefinition {
+    const { levelsPerLayout, order } = pack.layoutCycle;
+    const layoutId = order[Math.floor((levelNum - 1) / levelsPerLayout) % order.length];
+    const layout = pack.layouts.find(l => l.id === layoutId)!;
+
+    const { base, perLevel, maxLevel } = pack.enemyCount;
+    const enemyCount = base + Math.floor(Math.min(levelNum, maxLevel) * perLevel);
+
+    let roster = pack.rosters[0];
+    pack.rosters.forEach(r => { if (r.fromLevel <= levelNum) roster = r; });
+
+    const waveList = pack.waves ?? DEFAULT_WAVES;
+    let waves = waveList[0];
+    waveList.forEach(w => { if (w.fromLevel <= levelNum) waves = w; });
+
+    let bossHealth: number | null = null;
+    if (pack.boss && levelNum % pack.boss.every === 0) {
+        const encounter = levelNum / pack.boss.every;
+        bossHealth = pack.boss.health + (encounter - 1) * pack.boss.healthPerEncounter;
+    }
+
+    return { layout, enemyCount, roster: roster.enemies, waves, bossHealth };
+}
+
+// Pick an enemy type from a roster given a uniform roll in [0, 1).
+export function rollEnemyType(roster: RosterEntry[], roll: number): EnemyType {
+    const total = roster.reduce((sum, e) => sum + e.weight, 0);
+    let threshold = roll * total;
+    for (const entry of roster) {
+        if (threshold < entry.weight) return entry.type;
+        threshold -= entry.weight;
+    }
+    return roster[roster.length - 1].type;
+}
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import classicPackData from '../levels/classic.json';
+import { LayoutData, parseLevelPack } from './levelPack';
+import { Platform } from './platforms';
+
+// The built-in pack goes through the same validation as user-supplied ones.
+export const classicLevelPack = parseLevelPack(classicPackData);
+
+export function buildPlatforms(layout: LayoutData) {
+    return layout.platforms.map(data => {
+        const platform = new Platform(data.x, data.y, data.width, data.height);
+        return data.mobile ? platform.makeMobile(data.mobile.speed, data.mobile.range) : platform;
+    });
+}
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InputFrame, NO_INPUT, PlayerInput } from './input';
+import { deserializeWorld, serializeWorld, WorldSave } from './serialize';
+import type { GameWorld } from './world';
+
+export const INPUT_DELAY = 3; // Ticks between a press and its effect, so it usually reaches the partner in time
+export const MAX_PREDICTION = 12; // Ticks we will run ahead on guessed partner input before waiting for them
+export const CHECKSUM_INTERVAL = 120; // Ticks between state comparisons
+
+export interface Checksum {
+    tick: number;
+    sum: number;
+}
+
+// FNV-1a over the players, enemies and platforms of a save; both ends must agree on it.
+export function stateChecksum(save: WorldSave): number {
+    const text = JSON.stringify([save.players, save.enemies, save.platforms]);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function sameInput(a: PlayerInput, b: PlayerInput) {
+    return a.left === b.left && a.right === b.right && a.jump === b.jump;
+}
+
+/**
+ * Two-player lockstep for one GameWorld shared between two browsers. Each side
+ * schedules its own input INPUT_DELAY ticks ahead and sends it to the other.
+ * When the partner's input for a tick is late, their last held direction is
+ * assumed and the game carries on; if the real input turns out different, the
+ * world is restored from the snapshot before that tick and replayed. Every
+ * CHECKSUM_INTERVAL ticks both sides hash the state so a desync is caught
+ * instead of the two games silently drifting apart.
+ *
+ * This class never touches the network: the app sends what it returns and
+ * feeds in what arrives.
+ */
+export class LockstepSession {
+    world: GameWorld;
+    readonly localIndex: number;
+    tick = 0; // The next tick to simulate
+    desyncTick: number | null = null; // First checksum tick the two sides disagreed on
+    private readonly remoteIndex: number;
+    private inputs: PlayerInput[][] = [[], []]; // Known input per player, indexed by tick
+    private guesses = new Map<number, PlayerInput>(); // Partner input we assumed for ticks simulated without it
+    private snapshots = new Map<number, WorldSave>(); // World state before each tick we may return to
+    private confirmedTick = 0; // Every tick before this has the partner's real input
+    private rollbackTo: number | null = null;
+    private nextChecksumTick = CHECKSUM_INTERVAL;
+    private checksums: Checksum[] = []; // Computed here and not yet handed out for sending
+    private localSums = new Map<number, number>();
+    private remoteSums = new Map<number, number>();
+    private recordedTick = 0;
+
+    constructor(world: GameWorld, localIndex: number) {
+        this.world = world;
+        this.localIndex = localIndex;
+        this.remoteIndex = 1 - localIndex;
+        // Nobody can have pressed anything for the first few ticks
+        for (let tick = 0; tick < INPUT_DELAY; tick++) {
+            this.inputs[0][tick] = NO_INPUT;
+            this.inputs[1][tick] = NO_INPUT;
+        }
+        this.confirmedTick = INPUT_DELAY;
+    }
+
+    // False while we are as far ahead of the partner as we are willing to guess.
+    canAdvance() {
+        return this.tick - this.confirmedTick < MAX_PREDICTION;
+    }
+
+    // Schedule this tick's local input. Returns the tick it applies to, to send along with it.
+    addLocalInput(input: PlayerInput): number {
+        const tick = this.tick + INPUT_DELAY;
+        this.inputs[this.localIndex][tick] = input;
+        return tick;
+    }
+
+    addRemoteInput(tick: number, input: PlayerInput) {
+        this.inputs[this.remoteIndex][tick] = input;
+        const guess = this.guesses.get(tick);
+        if (guess) {
+            this.guesses.delete(tick);
+            if (!sameInput(guess, input)) this.rollbackTo = Math.min(this.rollbackTo ?? tick, tick);
+        }
+        while (this.inputs[this.remoteIndex][this.confirmedTick]) this.confirmedTick++;
+    }
+
+    addRemoteChecksum(tick: number, sum: number) {
+        this.remoteSums.set(tick, sum);
+        this.compareChecksums(tick);
+    }
+
+    // Simulate the next tick; what happened in it is in world.events as usual.
+    advance() {
+        this.resolveRollback();
+        this.simulate(this.tick);
+        this.tick++;
+        this.collectChecksums();
+    }
+
+    // Replay the ticks simulated on a wrong guess, now that the real input is in. Their events are not
+    // reported again: the sounds have already played, and a few may simply have been wrong.
+    resolveRollback() {
+        if (this.rollbackTo === null) return;
+        const from = this.rollbackTo;
+        this.rollbackTo = null;
+        const particles = this.world.particles; // Cosmetic and not in saves; keep them rather than blink
+        this.world = deserializeWorld(this.snapshots.get(from)!);
+        this.world.particles = particles;
+        for (let tick = from; tick < this.tick; tick++) this.simulate(tick);
+        this.collectChecksums();
+    }
+
+    // Checksums computed since the last call, for sending to the partner.
+    takeChecksums(): Checksum[] {
+        const checksums = this.checksums;
+        this.checksums = [];
+        return checksums;
+    }
+
+    // Frames that both players' real input is in for, since the last call; for the replay recording.
+    takeConfirmedFrames(): InputFrame[] {
+        const frames: InputFrame[] = [];
+        const end = Math.min(this.confirmedTick, this.tick);
+        for (; this.recordedTick < end; this.recordedTick++) {
+            frames.push([this.inputs[0][this.recordedTick], this.inputs[1][this.recordedTick]]);
+        }
+        return frames;
+    }
+
+    private simulate(tick: number) {
+        const remote = this.inputs[this.remoteIndex][tick];
+        if (!remote || tick % CHECKSUM_INTERVAL === 0) {
+            // serializeWorld shares nested objects with the live world, so the snapshot needs its own copy
+            this.snapshots.set(tick, structuredClone(serializeWorld(this.world)));
+        }
+        const frame: InputFrame = [];
+        frame[this.localIndex] = this.inputs[this.localIndex][tick] ?? NO_INPUT;
+        if (remote) {
+            frame[this.remoteIndex] = remote;
+        } else {
+            // Guess they are still holding the same direction; a jump is a single-tick press, so never repeat it
+            const last = this.inputs[this.remoteIndex][this.confirmedTick - 1] ?? NO_INPUT;
+            const guess = { ...last, jump: false };
+            this.guesses.set(tick, guess);
+            frame[this.remoteIndex] = guess;
+        }
+        this.world.step(frame);
+    }
+
+    // Hash each checksum tick once everything before it is final, then drop snapshots nobody can return to.
+    private collectChecksums() {
+        if (this.rollbackTo !== null) return;
+        while (this.nextChecksumTick <= this.confirmedTick && this.nextChecksumTick < this.tick) {
+            const tick = this.nextChecksumTick;
+            const sum = stateChecksum(this.snapshots.get(tick)!);
+            this.checksums.push({ tick, sum });
+            this.localSums.set(tick, sum);
+            this.compareChecksums(tick);
+            this.nextChecksumTick += CHECKSUM_INTERVAL;
+        }
+        const keepFrom = Math.min(this.confirmedTick, this.nextChecksumTick);
+        this.snapshots.forEach((_, tick) => { if (tick < keepFrom) this.snapshots.delete(tick); });
+    }
+
+    private compareChecksums(tick: number) {
+        const local = this.localSums.get(tick);
+        const remote = this.remoteSums.get(tick);
+        if (local === undefined || remote === undefined) return;
+        if (local !== remote && this.desyncTick === null) this.desyncTick = tick;
+        this.localSums.delete(tick);
+        this.remoteSums.delete(tick);
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, ClipName, createAnimation, playClip } from './animation';
+import { GRAVITY } from './constants';
+import { Random } from './random';
+
+export const PARTICLE_BUDGET = 400; // Live particles at most; a burst past it is cut short
+const ESSENTIAL_RESERVE = 40; // Of the budget, kept for essential bursts so a busy screen cannot crowd them out
+export const FROST_COLOR = '#b8f0ff';
+
+// glyph: an emoji, or its atlas skin when there is one. square: a fleck of colour. text: a few characters, like a score.
+export type ParticleLook = 'glyph' | 'square' | 'text';
+
+/**
+ * A burst of particles, described rather than coded. Each particle starts
+ * with a random velocity of up to `spread` px per tick either way on each
+ * axis (plus `rise` upwards), falls with `gravity`, shrinks by `shrink` px
+ * per tick and lasts `life` ticks.
+ */
+export interface EmitterPreset {
+    look: ParticleLook;
+    count: number;
+    spread: number;
+    rise: number;
+    gravity: number;
+    size: number;
+    sizeJitter: number; // Added to `size` at random
+    shrink: number;
+    life: number;
+    clip: ClipName; // For glyphs drawn from the atlas
+    essential?: boolean; // Carries information, so it is emitted in full whatever the density, from a reserved part of the budget
+}
+
+export type EmitterName = 'explosion' | 'death' | 'freezeSparkle' | 'scorePop';
+
+export const EMITTERS: Record<EmitterName, EmitterPreset> = {
+    // The ExplosiveBlock going off
+    explosion: { look: 'glyph', count: 50, spread: 4, rise: 0, gravity: GRAVITY * 0.1, size: 20, sizeJitter: 0, shrink: 0.2, life: 100, clip: 'idle' },
+    // Bits of whatever was destroyed; the sprite is the entity's own
+    death: { look: 'glyph', count: 20, spread: 4, rise: 0, gravity: GRAVITY * 0.1, size: 20, sizeJitter: 0, shrink: 0.2, life: 100, clip: 'dying' },
+    freezeSparkle: { look: 'square', count: 16, spread: 1.5, rise: 0.5, gravity: 0, size: 2, sizeJitter: 3, shrink: 0, life: 60, clip: 'idle' },
+    scorePop: { look: 'text', count: 1, spread: 0, rise: 1.2, gravity: 0.02, size: 14, sizeJitter: 0, shrink: 0, life: 50, clip: 'idle', essential: true },
+};
+
+// One pooled particle. Instances are recycled by ParticleSystem and never created during play.
+export class Particle {
+    x = 0;
+    y = 0;
+    prevX = 0;
+    prevY = 0;
+    vx = 0;
+    vy = 0;
+    gravity = 0;
+    size = 0;
+    shrink = 0;
+    life = 0;
+    maxLife = 1;
+    look: ParticleLook = 'square';
+    sprite = ''; // Glyph, CSS colour or text, depending on `look`
+    skin: string | null = null;
+    animation: Animation = createAnimation();
+    batch = ''; // Particles sharing this are drawn with the same font and colour
+    reserved: boolean; // Part of the slice of the pool kept for essential bursts
+
+    constructor(reserved: boolean) {
+        this.reserved = reserved;
+    }
+
+    update() {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.x += this.vx;
+        this.y += this.vy;
+        this.vy += this.gravity;
+        this.life--;
+        advanceAnimation(this.animation);
+        if (this.size > this.shrink) this.size -= this.shrink;
+    }
+}
+
+/**
+ * Every live particle, drawn from a pool allocated up front. Particles are
+ * cosmetic, so they roll their own RNG and never disturb the simulation's:
+ * a save or a rollback can drop or keep them without changing the game.
+ */
+export class ParticleSystem {
+    live: Particle[] = []; // In no particular order
+    density = 1; // Fraction of each burst that is emitted; reduced-motion play turns it down
+    private free: Particle[] = [];
+    private reserve: Particle[] = []; // Free particles only essential bursts may take
+    private rng: Random;
+
+    constructor(seed: number) {
+        this.rng = new Random(seed);
+        for (let i = 0; i < PARTICLE_BUDGET; i++) this.release(new Particle(i < ESSENTIAL_RESERVE));
+    }
+
+    // A burst of `name` at (x, y). `sprite` is the glyph, colour or text; `count` overrides the preset's.
+    emit(name: EmitterName, x: number, y: number, sprite: string, skin: string | null = null, count?: number) {
+        const preset = EMITTERS[name];
+        const total = preset.essential ? count ?? preset.count : Math.ceil((count ?? preset.count) * this.density);
+        for (let i = 0; i < total; i++) {
+            const p = (preset.essential ? this.reserve.pop() : undefined) ?? this.free.pop();
+            if (!p) return;
+            p.x = x;
+            p.y = y;
+            p.prevX = x;
+            p.prevY = y;
+            p.vx = (this.rng.next() - 0.5) * 2 * preset.spread;
+            p.vy = (this.rng.next() - 0.5) * 2 * preset.spread - preset.rise;
+            p.gravity = preset.gravity;
+            p.size = preset.size + this.rng.next() * preset.sizeJitter;
+            p.shrink = preset.shrink;
+            p.life = preset.life;
+            p.maxLife = preset.life;
+            p.look = preset.look;
+            p.sprite = sprite;
+            p.skin = skin;
+            p.animation.time = 0;
+            playClip(p.animation, preset.clip);
+            p.batch = `${preset.look}|${sprite}`;
+            this.live.push(p);
+        }
+    }
+
+    update() {
+        for (let i = this.live.length - 1; i >= 0; i--) {
+            const p = this.live[i];
+            p.update();
+            if (p.life > 0) continue;
+            // Swap the dead one out from the end rather than splicing
+            this.live[i] = this.live[this.live.length - 1];
+            this.live.pop();
+            this.release(p);
+        }
+    }
+
+    clear() {
+        this.live.forEach(p => this.release(p));
+        this.live.length = 0;
+    }
+
+    private release(p: Particle) {
+        (p.reserved ? this.reserve : this.free).push(p);
+    }
+}
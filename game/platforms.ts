@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EXPLOSIVE_BLOCK_USES, TICK_MS } from './constants';
+import { BLOCK_POWERUP_CHANCE, trySpawnPowerUp } from './powerups';
+import type { Player } from './player';
+import type { GameWorld } from './world';
+
+export class Platform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  isFloor: boolean;
+  isFrozen: boolean;
+  frozenTimer: number;
+  vx: number;
+  prevX: number;
+  startX: number;
+  range: number;
+  shakeTimer: number; // Set by a boss ground pound; purely visual
+
+  constructor(x: number, y: number, width: number, height = 20, isFloor = false) {
+    this.x = x;
+    this.y = y;
+    this.width = width;
+    this.height = height;
+    this.color = '#0074D9';
+    this.isFloor = isFloor;
+    this.isFrozen = false;
+    this.frozenTimer = 0;
+    this.vx = 0;
+    this.prevX = x;
+    this.startX = x;
+    this.range = 0;
+    this.shakeTimer = 0;
+  }
+
+  update() {
+      this.prevX = this.x;
+      if (this.shakeTimer > 0) this.shakeTimer -= TICK_MS;
+      if(this.isFrozen) {
+          this.frozenTimer -= TICK_MS;
+          if(this.frozenTimer <= 0) this.isFrozen = false;
+      }
+      if (this.vx !== 0) {
+          this.x += this.vx;
+          if (this.x <= this.startX || this.x >= this.startX + this.range) {
+              this.vx *= -1;
+          }
+      }
+  }
+
+  freeze() {
+      this.isFrozen = true;
+      this.frozenTimer = 7000;
+  }
+
+  makeMobile(speed: number, range: number) {
+      this.vx = speed;
+      this.range = range;
+      if (speed < 0) {
+          this.startX = this.x - range;
+      }
+      return this;
+  }
+}
+
+export class ExplosiveBlock {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    initialHeight: number;
+    baseY: number;
+    usesLeft: number;
+    cooldown: number;
+    
+    constructor(x: number, y: number) {
+        this.width = 50;
+        this.initialHeight = 50;
+        this.height = this.initialHeight;
+        this.x = x;
+        this.y = y;
+        this.baseY = y;
+        this.usesLeft = EXPLOSIVE_BLOCK_USES;
+        this.cooldown = 0;
+    }
+
+    update() {
+        if (this.cooldown > 0) this.cooldown -= TICK_MS;
+    }
+
+    // Bumped from below by `player`, who scores whatever the blast knocks over.
+    hit(world: GameWorld, player: Player) {
+        if (this.usesLeft > 0 && this.cooldown <= 0) {
+            this.usesLeft--;
+            this.cooldown = 500;
+            world.emit({ type: 'blockHit', x: this.x + this.width / 2, y: this.y });
+            trySpawnPowerUp(world, this.x + this.width / 2, this.y, BLOCK_POWERUP_CHANCE);
+            let flips = 0;
+            world.enemies.forEach(e => {
+                if (e.isInPipe() || e.isFlipped) return;
+                e.blast();
+                if (e.isFlipped) world.scoreFlip(player, ++flips, e);
+            });
+            world.particles.emit('explosion', this.x + this.width / 2, this.y, '💥', 'spark');
+            // Flattening effect
+            const flattenAmount = this.initialHeight / EXPLOSIVE_BLOCK_USES;
+            this.height -= flattenAmount;
+            this.y += flattenAmount;
+        }
+    }
+
+    // Restore the block for a new level, optionally moving it to that layout's spot.
+    reset(x = this.x, y = this.baseY) {
+        this.usesLeft = EXPLOSIVE_BLOCK_USES;
+        this.height = this.initialHeight;
+        this.x = x;
+        this.y = y;
+        this.baseY = y;
+    }
+}
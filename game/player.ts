@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, createAnimation, playClip } from './animation';
+import { COMBO_POINTS, COMBO_WINDOW, EXTRA_LIFE_SCORE, GAME_HEIGHT, GAME_WIDTH, GRAVITY, LIVES_START, PLAYER_JUMP, PLAYER_SPEED, TICK_MS } from './constants';
+import { NO_INPUT, PlayerInput } from './input';
+import type { PowerUpType } from './powerups';
+import type { GameWorld } from './world';
+
+const SPEED_BOOST = 1.6;
+const SHIELD_GRACE = 1500; // ms of invulnerability after the shield absorbs a hit
+const STUN_TIME = 2000;
+
+export class Player {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  width: number;
+  height: number;
+  vx: number;
+  vy: number;
+  onGround: boolean;
+  sprite: string; // Emoji, drawn when the sprite atlas is unavailable
+  skin: string; // Sprite atlas entry
+  facing: 1 | -1;
+  animation: Animation;
+  onFrozenPlatform: boolean;
+  isDead: boolean;
+  score: number;
+  lives: number;
+  nextExtraLifeScore: number;
+  effects: Partial<Record<PowerUpType, number>>; // Active timed power-ups, ms left
+  airJumpUsed: boolean;
+  invulnerableTimer: number;
+  stunTimer: number; // Knocked over by the other player bumping the platform underneath
+  kills: number; // This versus round's enemy kicks and knockouts
+  kickChain: number; // Kicks in the current combo, each within COMBO_WINDOW of the last
+  kickChainTimer: number; // ms left to carry the chain on
+
+  constructor(id: number, sprite: string) {
+    this.id = id;
+    this.width = 40;
+    this.height = 40;
+    this.x = 0;
+    this.y = 0;
+    this.prevX = 0;
+    this.prevY = 0;
+    this.vx = 0;
+    this.vy = 0;
+    this.moveToStart();
+    this.onGround = false;
+    this.sprite = sprite;
+    this.skin = `player${id}`;
+    this.facing = 1;
+    this.animation = createAnimation();
+    this.onFrozenPlatform = false;
+    this.isDead = false;
+
+    this.score = 0;
+    this.lives = LIVES_START;
+    this.nextExtraLifeScore = EXTRA_LIFE_SCORE;
+    this.effects = {};
+    this.airJumpUsed = false;
+    this.invulnerableTimer = 0;
+    this.stunTimer = 0;
+    this.kills = 0;
+    this.kickChain = 0;
+    this.kickChainTimer = 0;
+  }
+
+  private moveToStart() {
+    this.x = GAME_WIDTH / 2 - this.width / 2 + (this.id === 1 ? -50 : 50);
+    this.y = GAME_HEIGHT - this.height - 50;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.vx = 0;
+    this.vy = 0;
+  }
+
+  // Back to the starting spot with a fresh set of lives for the next versus round. Score carries over.
+  resetForRound(lives: number) {
+    this.moveToStart();
+    this.lives = lives;
+    this.isDead = false;
+    this.kills = 0;
+    this.effects = {};
+    this.stunTimer = 0;
+    this.invulnerableTimer = 0;
+  }
+
+  update(input: PlayerInput, world: GameWorld) {
+    if(this.isDead) return;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    // onGround still describes the last tick here; it is recomputed after this update
+    advanceAnimation(this.animation);
+    if (this.stunTimer > 0) {
+      this.stunTimer -= TICK_MS;
+      input = NO_INPUT;
+      playClip(this.animation, this.stunTimer < 500 ? 'recovering' : 'flipped');
+    } else {
+      playClip(this.animation, !this.onGround ? 'jump' : this.vx !== 0 ? 'run' : 'idle');
+    }
+    this.updateEffects();
+    if (this.onGround) this.airJumpUsed = false;
+    if (input.jump) this.jump(world);
+    // Horizontal movement
+    const speed = this.effects.speed ? PLAYER_SPEED * SPEED_BOOST : PLAYER_SPEED;
+    if (this.onFrozenPlatform) {
+        if (!input.left && !input.right) {
+            this.vx *= 0.97; // friction
+            if (Math.abs(this.vx) < 0.1) this.vx = 0;
+        } else {
+             if (input.left) this.vx = -speed;
+             if (input.right) this.vx = speed;
+        }
+    } else {
+        this.vx = 0;
+        if (input.left) this.vx = -speed;
+        if (input.right) this.vx = speed;
+    }
+    this.x += this.vx;
+    if (this.vx !== 0) this.facing = this.vx > 0 ? 1 : -1;
+
+    // Screen wrap
+    if (this.x < -this.width) this.x = GAME_WIDTH;
+    if (this.x > GAME_WIDTH) this.x = -this.width;
+
+    // Vertical movement
+    this.vy += GRAVITY;
+    this.y += this.vy;
+    this.onGround = false;
+    this.onFrozenPlatform = false;
+  }
+
+  jump(world: GameWorld) {
+    if (this.isDead) return;
+    if (this.onGround) {
+      this.vy = PLAYER_JUMP;
+      world.emit({ type: 'jump', playerId: this.id });
+    } else if (this.effects.doubleJump && !this.airJumpUsed) {
+      this.vy = PLAYER_JUMP;
+      this.airJumpUsed = true;
+      world.emit({ type: 'jump', playerId: this.id });
+    }
+  }
+
+  // Knocked over from below by `by`: helpless for a moment, and in versus open to a knockout.
+  stun(by: Player, world: GameWorld) {
+    if (this.isDead || this.stunTimer > 0) return;
+    this.stunTimer = STUN_TIME;
+    this.vy = -5;
+    world.emit({ type: 'playerStunned', playerId: this.id, byPlayerId: by.id });
+  }
+
+  // Count down the timed power-ups and drop the ones that ran out.
+  updateEffects() {
+    if (this.invulnerableTimer > 0) this.invulnerableTimer -= TICK_MS;
+    if (this.kickChainTimer > 0) this.kickChainTimer -= TICK_MS;
+    if (this.kickChainTimer <= 0) this.kickChain = 0;
+    (Object.keys(this.effects) as PowerUpType[]).forEach(type => {
+      const left = this.effects[type]! - TICK_MS;
+      if (left > 0) this.effects[type] = left;
+      else delete this.effects[type];
+    });
+  }
+
+  // Returns whether a life was actually lost.
+  die(world: GameWorld): boolean {
+    if(this.isDead || this.invulnerableTimer > 0) return false;
+    if (this.effects.shield) {
+      delete this.effects.shield;
+      this.invulnerableTimer = SHIELD_GRACE;
+      world.emit({ type: 'shieldBroken', playerId: this.id });
+      return false;
+    }
+    this.lives--;
+    this.kickChain = 0;
+    this.kickChainTimer = 0;
+    world.emit({ type: 'playerDied', playerId: this.id, livesLeft: this.lives });
+    world.particles.emit('death', this.x + this.width / 2, this.y + this.height / 2, this.sprite, this.skin, 50);
+
+    if (this.lives <= 0) {
+        this.isDead = true;
+        world.checkGameOver();
+    } else {
+        // Respawn player
+        this.x = GAME_WIDTH / 2 - this.width / 2;
+        this.y = GAME_HEIGHT - this.height - 100;
+        this.prevX = this.x; // Nothing should sweep across the jump back to the middle
+        this.prevY = this.y;
+        this.vx = 0;
+        this.vy = 0;
+        this.stunTimer = 0;
+    }
+    return true;
+  }
+
+   addScore(points: number, world: GameWorld) {
+    this.score += points;
+    if (this.score >= this.nextExtraLifeScore) {
+        this.nextExtraLifeScore += EXTRA_LIFE_SCORE;
+        this.gainLife(world);
+    }
+  }
+
+  gainLife(world: GameWorld) {
+    this.lives++;
+    world.emit({ type: 'extraLife', playerId: this.id });
+  }
+
+  // Pay out link `step` (from 0) of a combo, with its score floating up from (x, y).
+  awardCombo(step: number, x: number, y: number, world: GameWorld) {
+    if (step < COMBO_POINTS.length) {
+      this.addScore(COMBO_POINTS[step], world);
+      world.particles.emit('scorePop', x, y, `${COMBO_POINTS[step]}`);
+    } else {
+      this.gainLife(world);
+      world.particles.emit('scorePop', x, y, '1UP');
+    }
+  }
+
+  // A kick: the next link of the chain if the last one was recent enough, otherwise the start of a new one.
+  scoreKick(x: number, y: number, world: GameWorld) {
+    this.awardCombo(this.kickChain, x, y, world);
+    this.kickChain++;
+    this.kickChainTimer = COMBO_WINDOW;
+  }
+}
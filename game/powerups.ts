@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { advanceAnimation, Animation, createAnimation } from './animation';
+import { landOn } from './collision';
+import { GAME_WIDTH, GRAVITY, TICK_MS } from './constants';
+import type { Random } from './random';
+import type { GameWorld } from './world';
+
+export const POWERUP_TYPES = ['speed', 'doubleJump', 'shield', 'freeze', 'refill'] as const;
+export type PowerUpType = typeof POWERUP_TYPES[number];
+
+export interface PowerUpKind {
+    duration: number; // ms the effect lasts; 0 for instant items
+    points: number;
+    sprite: string; // Emoji fallback
+}
+
+export const POWERUPS: Record<PowerUpType, PowerUpKind> = {
+    speed: { duration: 8000, points: 100, sprite: '👟' },
+    doubleJump: { duration: 10000, points: 100, sprite: '🪶' },
+    shield: { duration: 15000, points: 150, sprite: '🛡️' }, // Or until it absorbs a hit
+    freeze: { duration: 5000, points: 150, sprite: '⏰' },
+    refill: { duration: 0, points: 100, sprite: '🔋' },
+};
+
+export const POWERUP_LIFETIME = 10000; // ms an uncollected item stays on screen
+export const MAX_POWERUPS = 2;
+export const BUMP_POWERUP_CHANCE = 0.05;
+export const BLOCK_POWERUP_CHANCE = 0.5;
+const DRIFT_SPEED = 1;
+
+/**
+ * A collectible item. It pops out of whatever was hit, falls onto platforms
+ * and drifts along them (wrapping like everything else) until a player
+ * touches it or it times out.
+ */
+export class PowerUp {
+    type: PowerUpType;
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    width = 30;
+    height = 30;
+    vx: number;
+    vy = -6;
+    life = POWERUP_LIFETIME;
+    sprite: string;
+    skin: string;
+    animation: Animation = createAnimation();
+
+    constructor(rng: Random, type: PowerUpType, x: number, y: number) {
+        this.type = type;
+        this.x = x - this.width / 2;
+        this.y = y - this.height;
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.vx = (rng.next() < 0.5 ? 1 : -1) * DRIFT_SPEED;
+        this.sprite = POWERUPS[type].sprite;
+        this.skin = `powerup.${type}`;
+    }
+
+    update(world: GameWorld) {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.life -= TICK_MS;
+        advanceAnimation(this.animation);
+
+        this.vy += GRAVITY;
+        this.y += this.vy;
+        const landed = landOn(this, world.platforms);
+        if (landed) this.x += landed.other.vx;
+        this.x += this.vx;
+        if (this.x < -this.width) this.x = GAME_WIDTH;
+        if (this.x > GAME_WIDTH) this.x = -this.width;
+    }
+}
+
+// Maybe pop an item out at (x, y). `chance` is 0..1; the RNG is only consulted when there is room for one.
+export function trySpawnPowerUp(world: GameWorld, x: number, y: number, chance: number) {
+    if (world.powerUps.length >= MAX_POWERUPS || world.rng.next() >= chance) return;
+    const type = POWERUP_TYPES[world.rng.int(0, POWERUP_TYPES.length - 1)];
+    world.powerUps.push(new PowerUp(world.rng, type, x, y));
+    world.emit({ type: 'powerUpSpawned', powerUp: type, x, y });
+}
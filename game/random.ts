@@ -0,0 +1,35 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Mulberry32. Every gameplay roll goes through a world's instance so a seed reproduces a run.
+export class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next() {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    int(min: number, max: number) {
+        return Math.floor(this.next() * (max - min + 1) + min);
+    }
+
+    // The generator's full state, for save files. Restoring it resumes the same sequence.
+    getState() {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
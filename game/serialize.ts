@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Coin } from './bonus';
+import { BossEnemy, Fireball } from './boss';
+import { BasicEnemy, Enemy, FastEnemy, IceBomberEnemy, JumpingEnemy, ToughEnemy } from './enemies';
+import { EnemyType, LevelPack, parseLevelPack, Point } from './levelPack';
+import { classicLevelPack } from './levels';
+import { ExplosiveBlock, Platform } from './platforms';
+import { Player } from './player';
+import { PowerUp } from './powerups';
+import { WaveScheduler } from './waves';
+import { GameMode, GameWorld, WorldPhase } from './world';
+
+export const SAVE_VERSION = 10;
+
+// The data fields of an entity class, without its methods.
+type Fields<T> = { [K in keyof T as T[K] extends (...args: never[]) => unknown ? never : K]: T[K] };
+
+// Enemies are saved under their level pack type name; the boss is never in a roster but saves as 'boss'.
+type SavedEnemyType = EnemyType | 'boss';
+
+// IceBomberEnemy points at a platform; saves store that as an index into `platforms`.
+export type EnemySave = Fields<Enemy> & {
+    type: SavedEnemyType;
+    platformIndex?: number;
+    [field: string]: unknown;
+};
+
+/**
+ * Everything needed to resume a run exactly, RNG included. Particles are
+ * cosmetic and roll their own RNG, so they are left out.
+ */
+export interface WorldSave {
+    version: number;
+    rngState: number;
+    level: number;
+    phase: WorldPhase;
+    levelTransitionTimer: number;
+    levelPack?: LevelPack; // Only for custom packs; missing means the built-in one
+    spawnPoints: Point[];
+    waves: Fields<WaveScheduler>;
+    players: Fields<Player>[];
+    enemies: EnemySave[];
+    platforms: Fields<Platform>[];
+    explosiveBlock: Fields<ExplosiveBlock>;
+    powerUps: Fields<PowerUp>[];
+    enemyFreezeTimer: number;
+    projectiles: Fields<Fireball>[];
+    bossDefeated: boolean;
+    bonusStageNext: boolean;
+    coins: Fields<Coin>[];
+    bonusTimer: number;
+    bonusCoins: number[];
+    bonusPerfect: boolean;
+    mode: GameMode;
+    round: number;
+    roundWins: number[];
+    roundWinner: number | null;
+    roundTimer: number;
+    enemyRespawnTimer: number;
+}
+
+const ENEMY_CLASSES: Record<SavedEnemyType, { prototype: Enemy }> = {
+    basic: BasicEnemy,
+    fast: FastEnemy,
+    jumping: JumpingEnemy,
+    iceBomber: IceBomberEnemy,
+    tough: ToughEnemy,
+    boss: BossEnemy,
+};
+
+export class SaveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveError';
+    }
+}
+
+function enemyType(enemy: Enemy): SavedEnemyType {
+    const type = (Object.keys(ENEMY_CLASSES) as SavedEnemyType[]).find(t => ENEMY_CLASSES[t].prototype === Object.getPrototypeOf(enemy));
+    if (!type) throw new SaveError(`Cannot save enemy of unknown class ${enemy.constructor.name}`);
+    return type;
+}
+
+// Rebuild a class instance from saved fields without running its constructor,
+// which would roll new random values. Nested data (animation state) is copied so
+// the running game never writes back into the save it came from.
+function revive<T extends object>(prototype: T, fields: object): T {
+    return Object.assign(Object.create(prototype), structuredClone(fields));
+}
+
+export function serializeWorld(world: GameWorld): WorldSave {
+    return {
+        version: SAVE_VERSION,
+        rngState: world.rng.getState(),
+        level: world.level,
+        phase: world.phase,
+        levelTransitionTimer: world.levelTransitionTimer,
+        levelPack: world.levelPack === classicLevelPack ? undefined : world.levelPack,
+        spawnPoints: world.spawnPoints.map(p => ({ ...p })),
+        waves: { ...world.waves, queue: [...world.waves.queue] },
+        players: world.players.map(p => ({ ...p })),
+        enemies: world.enemies.map(e => {
+            const { platform, ...fields } = e as Enemy & { platform?: Platform | null };
+            const save: EnemySave = { ...fields, type: enemyType(e) };
+            if (platform) save.platformIndex = world.platforms.indexOf(platform);
+            return save;
+        }),
+        platforms: world.platforms.map(p => ({ ...p })),
+        explosiveBlock: { ...world.explosiveBlock },
+        powerUps: world.powerUps.map(p => ({ ...p })),
+        enemyFreezeTimer: world.enemyFreezeTimer,
+        projectiles: world.projectiles.map(p => ({ ...p })),
+        bossDefeated: world.bossDefeated,
+        bonusStageNext: world.bonusStageNext,
+        coins: world.coins.map(c => ({ ...c })),
+        bonusTimer: world.bonusTimer,
+        bonusCoins: [...world.bonusCoins],
+        bonusPerfect: world.bonusPerfect,
+        mode: world.mode,
+        round: world.round,
+        roundWins: [...world.roundWins],
+        roundWinner: world.roundWinner,
+        roundTimer: world.roundTimer,
+        enemyRespawnTimer: world.enemyRespawnTimer,
+    };
+}
+
+export function deserializeWorld(save: WorldSave): GameWorld {
+    if (save?.version !== SAVE_VERSION) {
+        throw new SaveError(`Unsupported save version ${save?.version} (expected ${SAVE_VERSION})`);
+    }
+    const pack = save.levelPack ? parseLevelPack(save.levelPack) : classicLevelPack;
+    const world = new GameWorld(save.players.length, 0, pack, save.mode);
+
+    world.rng.setState(save.rngState);
+    world.level = save.level;
+    world.phase = save.phase;
+    world.levelTransitionTimer = save.levelTransitionTimer;
+    world.spawnPoints = save.spawnPoints;
+    world.waves = revive(WaveScheduler.prototype, save.waves);
+    world.players = save.players.map(p => revive(Player.prototype, p));
+    world.platforms = save.platforms.map(p => revive(Platform.prototype, p));
+    world.explosiveBlock = revive(ExplosiveBlock.prototype, save.explosiveBlock);
+    world.powerUps = save.powerUps.map(p => revive(PowerUp.prototype, p));
+    world.enemyFreezeTimer = save.enemyFreezeTimer;
+    world.projectiles = save.projectiles.map(p => revive(Fireball.prototype, p));
+    world.bossDefeated = save.bossDefeated;
+    world.bonusStageNext = save.bonusStageNext;
+    world.coins = save.coins.map(c => revive(Coin.prototype, c));
+    world.bonusTimer = save.bonusTimer;
+    world.bonusCoins = [...save.bonusCoins];
+    world.bonusPerfect = save.bonusPerfect;
+    world.round = save.round;
+    world.roundWins = [...save.roundWins];
+    world.roundWinner = save.roundWinner;
+    world.roundTimer = save.roundTimer;
+    world.enemyRespawnTimer = save.enemyRespawnTimer;
+    world.enemies = save.enemies.map(({ type, platformIndex, ...fields }) => {
+        const cls = ENEMY_CLASSES[type];
+        if (!cls) throw new SaveError(`Unknown enemy type "${type}" in save`);
+        const enemy = revive(cls.prototype, fields);
+        if (platformIndex !== undefined) {
+            const platform = world.platforms[platformIndex];
+            if (!platform) throw new SaveError(`Enemy refers to missing platform ${platformIndex}`);
+            (enemy as IceBomberEnemy).platform = platform;
+        }
+        return enemy;
+    });
+    return world;
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH, TICK_MS } from './constants';
+import type { EnemyType, Point, WaveTiming } from './levelPack';
+import type { GameWorld } from './world';
+
+export const PIPE_SIZE = 48; // Height of a pipe's opening
+export const EMERGE_TIME = 600; // ms to slide out of a top pipe
+export const PIPE_TRAVEL_TIME = 1500; // ms out of sight between dropping into a bottom pipe and coming out on top
+const FLOOR_Y = GAME_HEIGHT - 40;
+const BOTTOM_PIPE_LENGTH = 60;
+const ENEMY_SLOT = 40; // Room left in front of a right-hand pipe for the widest enemy to stand at its spawn point
+
+/**
+ * A pipe lying along one edge of the screen, open at the end facing the
+ * middle. `dir` is the way enemies move through that mouth: out of top pipes
+ * and into bottom ones.
+ */
+export interface Pipe {
+    x: number;
+    y: number;
+    width: number;
+    dir: 1 | -1;
+}
+
+export function pipeMouthX(pipe: Pipe) {
+    return pipe.x === 0 ? pipe.width : pipe.x;
+}
+
+// One top pipe per spawn point, reaching in from the nearer edge so an enemy that has come out stands on the spawn point.
+export function topPipe(spawnPoint: Point): Pipe {
+    if (spawnPoint.x < GAME_WIDTH / 2) return { x: 0, y: spawnPoint.y, width: spawnPoint.x, dir: 1 };
+    const x = Math.min(spawnPoint.x + ENEMY_SLOT, GAME_WIDTH);
+    return { x, y: spawnPoint.y, width: GAME_WIDTH - x, dir: -1 };
+}
+
+// The two pipes at the ends of the floor that enemies walk into.
+export const BOTTOM_PIPES: Pipe[] = [
+    { x: 0, y: FLOOR_Y - PIPE_SIZE, width: BOTTOM_PIPE_LENGTH, dir: -1 },
+    { x: GAME_WIDTH - BOTTOM_PIPE_LENGTH, y: FLOOR_Y - PIPE_SIZE, width: BOTTOM_PIPE_LENGTH, dir: 1 },
+];
+
+// The top pipe an enemy that left on `side` (-1 left, 1 right) comes back out of, falling back to the nearest one.
+export function topPipeOnSide(spawnPoints: Point[], side: -1 | 1): Pipe {
+    const pipes = spawnPoints.map(topPipe);
+    return pipes.find(p => p.dir === -side) ?? pipes[0];
+}
+
+/**
+ * Releases a level's enemies one at a time, alternating between the top
+ * pipes: the first after `delay`, the rest every `interval`, and only while
+ * fewer than `maxOnScreen` are already out.
+ */
+export class WaveScheduler {
+    timing: WaveTiming;
+    queue: EnemyType[]; // Still to come, in order
+    timer: number;
+    nextPipe = 0; // Index into the world's spawn points
+
+    constructor(timing: WaveTiming, queue: EnemyType[]) {
+        this.timing = timing;
+        this.queue = queue;
+        this.timer = timing.delay;
+    }
+
+    update(world: GameWorld) {
+        if (this.queue.length === 0) return;
+        if (this.timer > 0) this.timer -= TICK_MS;
+        if (this.timer > 0 || world.enemies.length >= this.timing.maxOnScreen) return;
+        world.spawnFromPipe(this.queue.shift()!, this.nextPipe);
+        this.nextPipe = (this.nextPipe + 1) % world.spawnPoints.length;
+        this.timer = this.timing.interval;
+    }
+
+    isDone() {
+        return this.queue.length === 0;
+    }
+}
@@ -0,0 +1,464 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BONUS_STAGE_TIME, BONUS_TALLY_TIME, bonusPoints, Coin, placeCoins } from './bonus';
+import { BossEnemy, Fireball } from './boss';
+import { bumpInto, bumpZone, findTouches, hasFeetIn, landOn, overlaps, separationX, SpatialGrid } from './collision';
+import {
+    BUMP_POINTS, GAME_HEIGHT, GAME_WIDTH, LEVEL_TRANSITION_TIME, ROUND_RESULTS_TIME, TICK_MS, VERSUS_KILLS_TO_WIN, VERSUS_LIVES, VERSUS_ROUNDS_TO_WIN,
+} from './constants';
+import { BasicEnemy, Enemy, FastEnemy, IceBomberEnemy, JumpingEnemy, ToughEnemy } from './enemies';
+import type { GameEvent } from './events';
+import { InputFrame, NO_INPUT } from './input';
+import { DEFAULT_WAVES, EnemyType, LayoutData, LevelPack, Point, resolveLevel, rollEnemyType } from './levelPack';
+import { buildPlatforms, classicLevelPack } from './levels';
+import { FROST_COLOR, ParticleSystem } from './particle';
+import { ExplosiveBlock, Platform } from './platforms';
+import { Player } from './player';
+import { BUMP_POWERUP_CHANCE, PowerUp, POWERUPS, trySpawnPowerUp } from './powerups';
+import { Random } from './random';
+import { topPipe, WaveScheduler } from './waves';
+
+export type WorldPhase = 'playing' | 'levelTransition' | 'bonusStage' | 'bonusTally' | 'roundOver' | 'gameOver';
+
+// Co-op clears levels together; versus plays rounds against each other in the same arenas.
+export type GameMode = 'coop' | 'versus';
+
+const PLAYER_SPRITES = ['🤖', '🧑‍🚀'];
+const ENEMY_RESPAWN_TIME = 1500; // Versus keeps each arena stocked at this pace
+const HEAD_TOLERANCE = 10; // px of overlap that still counts as landing on another player's head
+
+/**
+ * The whole simulation, with no DOM or canvas access. It only moves forward
+ * through `step()`, one fixed tick at a time, from an explicit input frame,
+ * so it runs the same in the browser and under Node.
+ */
+export class GameWorld {
+    rng: Random;
+    levelPack: LevelPack;
+    mode: GameMode;
+    level = 1;
+    phase: WorldPhase = 'playing';
+    levelTransitionTimer = 0;
+    players: Player[] = [];
+    enemies: Enemy[] = [];
+    platforms: Platform[] = [];
+    particles: ParticleSystem;
+    powerUps: PowerUp[] = [];
+    enemyFreezeTimer = 0; // ms left on a freeze clock; enemies stand still while it runs
+    projectiles: Fireball[] = [];
+    bossDefeated = false; // This level's boss is beaten; the transition shows the bonus
+    spawnPoints: Point[] = []; // Each has a top pipe enemies come out of
+    waves = new WaveScheduler(DEFAULT_WAVES[0], []); // Replaced by setupLevel
+    explosiveBlock: ExplosiveBlock;
+    events: GameEvent[] = []; // What happened during the last step(); replaced every tick
+    // Bonus stage, between one layout's levels and the next
+    bonusStageNext = false; // The current transition leads into a bonus stage rather than a level
+    coins: Coin[] = [];
+    bonusTimer = 0;
+    bonusCoins: number[] = []; // Collected this stage, per player
+    bonusPerfect = false;
+    // Versus only
+    round = 1;
+    roundWins: number[] = [];
+    roundWinner: number | null = null; // Player id, or null for a draw
+    roundTimer = 0;
+    enemyRespawnTimer = ENEMY_RESPAWN_TIME;
+    private removals = new Set<object>(); // Taken out of play this tick; see remove()
+
+    constructor(numPlayers: number, seed: number, levelPack: LevelPack = classicLevelPack, mode: GameMode = 'coop') {
+        this.rng = new Random(seed);
+        this.particles = new ParticleSystem(seed);
+        this.levelPack = levelPack;
+        this.mode = mode;
+        for (let id = 1; id <= numPlayers; id++) {
+            this.players.push(new Player(id, PLAYER_SPRITES[id - 1]));
+        }
+        if (mode === 'versus') {
+            this.roundWins = this.players.map(() => 0);
+            this.players.forEach(p => p.lives = VERSUS_LIVES);
+        }
+        this.explosiveBlock = new ExplosiveBlock(0, 0);
+        this.setupLevel(this.level);
+    }
+
+    setupLevel(levelNum: number) {
+        const { layout, enemyCount, roster, waves, bossHealth } = resolveLevel(this.levelPack, levelNum);
+        this.setupArena(layout);
+
+        // Boss levels are the boss alone; it brings its own minions
+        if (bossHealth !== null && this.mode !== 'versus') {
+            this.enemies.push(new BossEnemy(GAME_WIDTH / 2 - 60, 0, bossHealth));
+            return;
+        }
+
+        const queue: EnemyType[] = [];
+        for (let i = 0; i < enemyCount; i++) queue.push(rollEnemyType(roster, this.rng.next()));
+        this.waves = new WaveScheduler(waves, queue);
+    }
+
+    // Platforms and block for `layout`, with nothing else in play.
+    private setupArena(layout: LayoutData) {
+        this.platforms = [
+            new Platform(0, GAME_HEIGHT - 40, GAME_WIDTH, 40, true),
+            ...buildPlatforms(layout),
+        ];
+        this.spawnPoints = layout.spawnPoints;
+        this.enemies = [];
+        this.waves.queue = [];
+        this.powerUps = [];
+        this.enemyFreezeTimer = 0;
+        this.projectiles = [];
+        this.bossDefeated = false;
+        this.explosiveBlock.reset(layout.explosiveBlock.x, layout.explosiveBlock.y);
+        this.coins = [];
+    }
+
+    createEnemy(type: EnemyType, x: number, y: number): Enemy {
+        const rng = this.rng;
+        switch (type) {
+            case 'fast': return new FastEnemy(rng, x, y);
+            case 'jumping': return new JumpingEnemy(rng, x, y);
+            case 'tough': return new ToughEnemy(rng, x, y);
+            case 'iceBomber': {
+                // Bombers sit on a static platform nobody else is bombing; fall back when none is left
+                const validPlatforms = this.platforms.filter(p => !p.isFloor && p.vx === 0 && !this.enemies.some(e => e instanceof IceBomberEnemy && e.platform === p));
+                if (validPlatforms.length === 0) return new BasicEnemy(rng, x, y);
+                const platformForBomber = validPlatforms[rng.int(0, validPlatforms.length - 1)];
+                return new IceBomberEnemy(rng, 0, 0, platformForBomber);
+            }
+            default: return new BasicEnemy(rng, x, y);
+        }
+    }
+
+    // Send a new enemy out of the top pipe over spawn point `pipeIndex`. Bombers skip the pipe and start on their platform.
+    spawnFromPipe(type: EnemyType, pipeIndex: number) {
+        const spawnPoint = this.spawnPoints[pipeIndex];
+        const enemy = this.createEnemy(type, spawnPoint.x, spawnPoint.y);
+        if (!(enemy instanceof IceBomberEnemy)) enemy.enterPipe(topPipe(spawnPoint));
+        this.enemies.push(enemy);
+    }
+
+    // Advance the simulation by one TICK_MS step.
+    step(input: InputFrame) {
+        this.events = [];
+        if (this.phase === 'playing' || this.phase === 'bonusStage') {
+            this.players.forEach((p, i) => p.update(input[i] ?? NO_INPUT, this));
+            if (this.enemyFreezeTimer > 0) {
+                this.enemyFreezeTimer -= TICK_MS;
+            } else {
+                this.waves.update(this);
+                this.enemies.forEach(e => e.isInPipe() ? e.updateInPipe() : e.update(this));
+                this.projectiles.forEach(p => p.update());
+                this.projectiles.forEach(p => { if (p.isOffScreen()) this.remove(p); });
+            }
+            this.powerUps.forEach(p => p.update(this));
+            this.powerUps = this.powerUps.filter(p => p.life > 0);
+            this.platforms.forEach(p => p.update());
+            this.explosiveBlock.update();
+            this.coins.forEach(c => c.update());
+            this.flushRemovals();
+            this.handleCollisions();
+            if (this.phase === 'bonusStage') {
+                this.bonusTimer -= TICK_MS;
+                if (this.bonusTimer <= 0 || this.coins.length === 0) this.endBonusStage();
+            } else if (this.mode === 'versus') {
+                this.updateVersus();
+            } else if (this.enemies.length === 0 && this.waves.isDone() && this.players.some(p => !p.isDead)) {
+                this.emit({ type: 'levelCleared', level: this.level });
+                this.bonusStageNext = this.level % this.levelPack.layoutCycle.levelsPerLayout === 0;
+                this.level++;
+                this.phase = 'levelTransition';
+                // Linger on the boss-defeated screen a little longer than a normal level break
+                this.levelTransitionTimer = this.bossDefeated ? LEVEL_TRANSITION_TIME * 2 : LEVEL_TRANSITION_TIME;
+            } else if (this.enemies.length === 1 && this.waves.isDone()) {
+                this.enemies[0].enrage(this);
+            }
+        } else if (this.phase === 'levelTransition') {
+            this.levelTransitionTimer -= TICK_MS;
+            if (this.levelTransitionTimer <= 0 && this.bonusStageNext) {
+                this.startBonusStage();
+            } else if (this.levelTransitionTimer <= 0) {
+                this.setupLevel(this.level);
+                this.phase = 'playing';
+                this.emit({ type: 'levelStarted', level: this.level, boss: this.isBossLevel(this.level) });
+            }
+        } else if (this.phase === 'bonusTally') {
+            this.levelTransitionTimer -= TICK_MS;
+            if (this.levelTransitionTimer <= 0) {
+                this.phase = 'levelTransition';
+                this.levelTransitionTimer = LEVEL_TRANSITION_TIME;
+            }
+        } else if (this.phase === 'roundOver') {
+            this.roundTimer -= TICK_MS;
+            if (this.roundTimer <= 0) this.startRound(this.round + 1);
+        }
+        this.particles.update();
+    }
+
+    // --- BONUS STAGE ---
+    // Played on the arena of the level that follows: no enemies, just coins and a clock.
+    private startBonusStage() {
+        this.bonusStageNext = false;
+        this.setupArena(resolveLevel(this.levelPack, this.level).layout);
+        this.coins = placeCoins(this.platforms);
+        this.bonusTimer = BONUS_STAGE_TIME;
+        this.bonusCoins = this.players.map(() => 0);
+        this.phase = 'bonusStage';
+    }
+
+    private endBonusStage() {
+        this.bonusPerfect = this.coins.length === 0;
+        this.coins = [];
+        this.players.forEach((p, i) => {
+            if (!p.isDead) p.addScore(bonusPoints(this.bonusCoins[i], this.bonusPerfect), this);
+        });
+        this.emit({ type: 'bonusStageOver', perfect: this.bonusPerfect });
+        this.phase = 'bonusTally';
+        this.levelTransitionTimer = BONUS_TALLY_TIME;
+    }
+
+    // --- VERSUS ---
+    private updateVersus() {
+        if (this.phase !== 'playing') return; // A knockout this tick may already have ended the round
+        const winner = this.players.find(p => p.kills >= VERSUS_KILLS_TO_WIN);
+        if (winner) {
+            this.endRound(winner.id);
+            return;
+        }
+        // Kicked enemies come back so there is always something to score from
+        const { enemyCount, roster } = resolveLevel(this.levelPack, this.level);
+        if (this.enemies.length + this.waves.queue.length < enemyCount) {
+            this.enemyRespawnTimer -= TICK_MS;
+            if (this.enemyRespawnTimer <= 0) {
+                this.waves.queue.push(rollEnemyType(roster, this.rng.next()));
+                this.enemyRespawnTimer = ENEMY_RESPAWN_TIME;
+            }
+        }
+    }
+
+    private endRound(winnerId: number | null) {
+        this.roundWinner = winnerId;
+        if (winnerId !== null) this.roundWins[winnerId - 1]++;
+        this.emit({ type: 'roundOver', round: this.round, winnerId });
+        if (this.roundWins.some(wins => wins >= VERSUS_ROUNDS_TO_WIN)) {
+            this.phase = 'gameOver';
+            this.emit({ type: 'gameOver' });
+        } else {
+            this.phase = 'roundOver';
+            this.roundTimer = ROUND_RESULTS_TIME;
+        }
+    }
+
+    // Each round is fought on the next level's arena and roster; versus has no boss fights, even on a pack's boss levels.
+    private startRound(round: number) {
+        this.round = round;
+        this.level = round;
+        this.players.forEach(p => p.resetForRound(VERSUS_LIVES));
+        this.setupLevel(round);
+        this.phase = 'playing';
+    }
+
+    // The match winner's player id, once the match is over.
+    matchWinner(): number | null {
+        const index = this.roundWins.findIndex(wins => wins >= VERSUS_ROUNDS_TO_WIN);
+        return index === -1 ? null : index + 1;
+    }
+
+    isBossLevel(levelNum: number) {
+        return this.mode !== 'versus' && resolveLevel(this.levelPack, levelNum).bossHealth !== null;
+    }
+
+    // A player touched `powerUp`: score it and apply its effect.
+    collectPowerUp(player: Player, powerUp: PowerUp) {
+        this.remove(powerUp);
+        const kind = POWERUPS[powerUp.type];
+        switch (powerUp.type) {
+            case 'freeze':
+                this.enemyFreezeTimer = kind.duration;
+                this.enemies.forEach(e => { if (!e.isInPipe()) this.particles.emit('freezeSparkle', e.x + e.width / 2, e.y + e.height / 2, FROST_COLOR); });
+                break;
+            case 'refill': this.explosiveBlock.reset(); break;
+            default: player.effects[powerUp.type] = kind.duration;
+        }
+        this.emit({ type: 'powerUpCollected', playerId: player.id, powerUp: powerUp.type, x: powerUp.x + powerUp.width / 2, y: powerUp.y });
+        player.addScore(kind.points, this);
+    }
+
+    emit(event: GameEvent) {
+        this.events.push(event);
+    }
+
+    // Points for `enemy`, the `flips`th knocked over by one bump or blast: the first is a plain bump, the rest a combo.
+    // A hit that leaves it standing pays as a first.
+    scoreFlip(player: Player, flips: number, enemy: Enemy) {
+        const x = enemy.x + enemy.width / 2;
+        if (flips > 1) {
+            player.awardCombo(flips - 2, x, enemy.y, this);
+            return;
+        }
+        player.addScore(BUMP_POINTS, this);
+        this.particles.emit('scorePop', x, enemy.y, `${BUMP_POINTS}`);
+    }
+
+    checkGameOver() {
+        if (this.mode === 'versus') {
+            const alive = this.players.filter(p => !p.isDead);
+            if (alive.length <= 1 && this.phase === 'playing') this.endRound(alive[0]?.id ?? null);
+            return;
+        }
+        const allPlayersDead = this.players.every(p => p.isDead);
+        if(allPlayersDead) {
+            this.phase = 'gameOver';
+            this.emit({ type: 'gameOver' });
+        }
+    }
+
+    // Take an entity out of play. It stays in its list until the current pass over the entities is over,
+    // so a loop over that list never skips the one after it.
+    remove(entity: Enemy | PowerUp | Coin | Fireball) {
+        this.removals.add(entity);
+    }
+
+    isRemoved(entity: object) {
+        return this.removals.has(entity);
+    }
+
+    private flushRemovals() {
+        if (this.removals.size === 0) return;
+        const keep = <T extends object>(list: T[]) => list.filter(e => !this.removals.has(e));
+        this.enemies = keep(this.enemies);
+        this.powerUps = keep(this.powerUps);
+        this.coins = keep(this.coins);
+        this.projectiles = keep(this.projectiles);
+        this.removals.clear();
+    }
+
+    handleCollisions() {
+        const living = this.players.filter(p => !p.isDead);
+        const walking = new SpatialGrid(this.enemies.filter(e => !e.isInPipe()));
+        living.forEach(player => this.collideWithArena(player, walking));
+
+        // Everything a player can touch, in one broadphase
+        const touchable = new SpatialGrid<Enemy | PowerUp | Coin | Fireball>([...this.powerUps, ...this.coins, ...this.projectiles, ...this.enemies.filter(e => !e.isInPipe())]);
+        living.forEach(player => {
+            for (const { other } of findTouches(player, touchable)) {
+                if (player.isDead) break;
+                if (this.isRemoved(other)) continue; // Already taken by the other player this tick
+                if (other instanceof PowerUp) {
+                    this.collectPowerUp(player, other);
+                } else if (other instanceof Coin) {
+                    this.remove(other);
+                    this.bonusCoins[player.id - 1]++;
+                    this.emit({ type: 'coinCollected', playerId: player.id, x: other.x + other.width / 2, y: other.y });
+                } else if (other instanceof Fireball) {
+                    this.remove(other);
+                    if (player.die(this)) break; // Respawned somewhere else; the rest of these touches are stale
+                } else if (other.isFlipped) {
+                    this.remove(other);
+                    this.particles.emit('death', other.x, other.y, other.sprite, other.skin);
+                    const streak = other instanceof ToughEnemy && other.isStreakBy(player.id);
+                    this.emit({ type: 'enemyKicked', playerId: player.id, enemy: other.kind(), streak, x: other.x + other.width / 2, y: other.y });
+                    player.scoreKick(other.x + other.width / 2, other.y, this);
+                    player.kills++;
+                } else if (player.die(this)) {
+                    break;
+                }
+            }
+        });
+
+        // Player vs Player
+        for (let i = 0; i < this.players.length; i++) {
+            for (let j = i + 1; j < this.players.length; j++) {
+                const p1 = this.players[i];
+                const p2 = this.players[j];
+                if (p1.isDead || p2.isDead || !overlaps(p1, p2)) continue;
+
+                // In versus a stunned player is knocked out by the other one walking into them
+                if (this.mode === 'versus' && (p1.stunTimer > 0) !== (p2.stunTimer > 0)) {
+                    const [attacker, victim] = p1.stunTimer > 0 ? [p2, p1] : [p1, p2];
+                    if (victim.die(this)) {
+                        attacker.kills++;
+                        this.emit({ type: 'playerKnockedOut', playerId: victim.id, byPlayerId: attacker.id });
+                    }
+                    continue;
+                }
+
+                // Landing on a head: stand on it like a platform
+                const [top, bottom] = p1.y < p2.y ? [p1, p2] : [p2, p1];
+                if (top.vy >= bottom.vy && top.y + top.height - bottom.y <= HEAD_TOLERANCE + Math.max(0, top.vy - bottom.vy)) {
+                    top.y = bottom.y - top.height;
+                    top.vy = bottom.vy;
+                    top.onGround = true;
+                    continue;
+                }
+
+                // Otherwise shoulder to shoulder: push apart sideways
+                const push = separationX(p1, p2) / 2;
+                p1.x += push;
+                p2.x -= push;
+            }
+        }
+
+        // Enemy vs Enemy: walkers that meet on the ground turn each other round
+        walking.pairs().forEach(([e1, e2]) => {
+            if (this.isRemoved(e1) || this.isRemoved(e2)) return;
+            if (e1.isFlipped || e2.isFlipped || !e1.onGround || !e2.onGround) return;
+            // Swap velocities for a better bounce effect
+            const tempVx = e1.vx;
+            e1.vx = e2.vx;
+            e2.vx = tempVx;
+
+            // Give a slight push to prevent sticking
+            if (separationX(e1, e2) < 0) {
+                e1.x -= 1;
+                e2.x += 1;
+            } else {
+                e1.x += 1;
+                e2.x -= 1;
+            }
+        });
+
+        this.flushRemovals();
+    }
+
+    // Land a player on the platforms and block, or stop them against one from below and knock over whatever stands on it.
+    private collideWithArena(player: Player, walking: SpatialGrid<Enemy>) {
+        const block = this.explosiveBlock;
+        const surfaces: (Platform | ExplosiveBlock)[] = block.usesLeft > 0 ? [...this.platforms, block] : this.platforms;
+
+        const landed = landOn(player, surfaces);
+        player.onGround = landed !== null;
+        player.onFrozenPlatform = landed?.other instanceof Platform && landed.other.isFrozen;
+        if (landed?.other instanceof Platform) player.x += landed.other.vx;
+
+        const bumped = bumpInto(player, surfaces);
+        if (!bumped) return;
+        const surface = bumped.other;
+        const hitCenterX = player.x + player.width / 2;
+        this.emit({ type: 'bump', playerId: player.id, x: hitCenterX, y: surface.y + surface.height });
+        if (surface instanceof ExplosiveBlock) {
+            surface.hit(this, player);
+            return;
+        }
+        trySpawnPowerUp(this, hitCenterX, surface.y, BUMP_POWERUP_CHANCE);
+        const zone = bumpZone(surface, hitCenterX);
+        let flips = 0;
+        walking.query(zone).forEach(enemy => {
+            if (!enemy.isFlipped && hasFeetIn(enemy, zone)) {
+                enemy.flip(player.id);
+                // Tougher enemies can take a hit and stay on their feet
+                const type = enemy.isFlipped ? 'enemyFlipped' : 'enemyHit';
+                this.emit({ type, playerId: player.id, enemy: enemy.kind(), x: enemy.x + enemy.width / 2, y: enemy.y });
+                this.scoreFlip(player, enemy.isFlipped ? ++flips : 1, enemy);
+            }
+        });
+        // Anyone standing over the bump is knocked off their feet, partners included
+        this.players.forEach(other => {
+            if (other !== player && other.vy >= 0 && hasFeetIn(other, zone)) other.stun(player, this);
+        });
+    }
+}
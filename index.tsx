@@ -4,878 +4,755 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { BOSS_BONUS } from './game/boss';
+import { Bot, BOT_DIFFICULTIES, BotDifficulty } from './game/bot';
+import { GAME_HEIGHT, GAME_WIDTH, TICK_MS } from './game/constants';
+import { decodeInput, encodeInput, InputFrame } from './game/input';
+import { LevelPack, parseLevelPack } from './game/levelPack';
+import { LockstepSession } from './game/lockstep';
+import { classicLevelPack } from './game/levels';
+import { deserializeWorld, serializeWorld, WorldSave } from './game/serialize';
+import { GameMode, GameWorld, WorldPhase } from './game/world';
+import { AccessibilityOptions, Announcer } from './ui/accessibility';
+import { Achievements, AchievementsScreen, AchievementToasts } from './ui/achievements';
+import { AttractMode } from './ui/attract';
+import { AudioSystem } from './ui/audio';
+import { InputManager } from './ui/controls';
+import { ControlsMenu } from './ui/controlsMenu';
+import { LevelEditor } from './ui/editor';
+import { LobbyMenu } from './ui/lobbyMenu';
+import { InitialsEntry, Leaderboard, LeaderboardScreen, PendingScore } from './ui/leaderboard';
+import { downloadJson, pickJsonFile } from './ui/files';
+import { HudBinder } from './ui/hud';
+import { NetClient, NetEvent } from './ui/netplay';
+import { CanvasRenderer } from './ui/renderer';
+import { SettingsMenu } from './ui/settingsMenu';
+import { AtlasData, loadSpriteAtlas } from './ui/sprites';
+import { TouchControls } from './ui/touch';
+import { fitCanvas, toggleFullscreen } from './ui/viewport';
+import spriteAtlasData from './assets/sprites.json';
+
 // --- DOM ELEMENTS ---
 const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
-const ctx = canvas.getContext('2d')!;
-const highScoreEl = document.getElementById('high-score')!;
-const messageOverlay = document.getElementById('message-overlay')!;
-const messageTitle = document.getElementById('message-title')!;
-const messageText = document.getElementById('message-text')!;
-
-// Player UI elements
-const p1ScoreEl = document.getElementById('p1-score')!;
-const p1LivesEl = document.getElementById('p1-lives')!;
-const p2Ui = document.getElementById('p2-ui')!;
-const p2ScoreEl = document.getElementById('p2-score')!;
-const p2LivesEl = document.getElementById('p2-lives')!;
-
-
-// --- GAME CONSTANTS ---
-const GAME_WIDTH = 960;
-const GAME_HEIGHT = 720;
-const GRAVITY = 0.6;
-const PLAYER_SPEED = 5;
-const PLAYER_JUMP = -15;
-const ENEMY_SPEED = 1.5;
-const FLIP_DURATION = 5000;
+const renderer = new CanvasRenderer(canvas.getContext('2d')!);
+const hud = new HudBinder();
+const editor = new LevelEditor();
+const input = new InputManager();
+const touch = new TouchControls(input);
+const controlsMenu = new ControlsMenu(input);
+const leaderboard = new Leaderboard();
+const leaderboardScreen = new LeaderboardScreen(leaderboard);
+const achievements = new Achievements();
+const achievementsScreen = new AchievementsScreen(achievements);
+const toasts = new AchievementToasts();
+const attract = new AttractMode(input, leaderboardScreen);
+const audio = new AudioSystem();
+const accessibility = new AccessibilityOptions();
+const announcer = new Announcer();
+const settingsMenu = new SettingsMenu(audio, accessibility);
+renderer.accessibility = accessibility.settings; // Shared, so changes in the settings menu show straight away
+
+
+// --- APP CONSTANTS ---
 const HIGH_SCORE_KEY = 'retroArcadeHighScore';
-const LIVES_START = 3;
-const EXTRA_LIFE_SCORE = 20000;
-const LEVEL_TRANSITION_TIME = 1500;
-const EXPLOSIVE_BLOCK_USES = 3;
-
-const spawnPoints = [
-    { x: 150, y: 60 },
-    { x: GAME_WIDTH - 150, y: 60 }
-];
+const MAX_FRAME_TIME = 250; // Clamp long frames (tab switches) so the sim never spirals
+const ATTRACT_DELAY = 20000; // ms the title screen sits untouched before the demo starts
+const SAVED_RUN_KEY = 'draicorBrosSavedRun';
+const SAVED_CPU_KEY = 'draicorBrosSavedRunCpu'; // The CPU partner's difficulty, when the saved run has one
+const CPU_DIFFICULTY_KEY = 'draicorBrosCpuDifficulty';
+const REPLAY_VERSION = 12;
+// The relay can be pointed elsewhere with ?relay=wss://host:port; by default it is the one from server/relay.ts on this machine
+const RELAY_URL = new URLSearchParams(location.search).get('relay') ?? `ws://${location.hostname || 'localhost'}:8787`;
+const net = new NetClient(RELAY_URL);
+const lobbyMenu = new LobbyMenu(net);
+
+// --- TYPES ---
+// Frames are stored as one bitmask per player to keep long runs small.
+// Runs on a custom level pack carry the pack so they replay anywhere, and
+// runs continued from a save start from that snapshot instead of the seed.
+interface Replay {
+  version: number;
+  seed: number;
+  numPlayers: number;
+  mode?: GameMode; // Missing means co-op
+  levelPack?: LevelPack;
+  start?: WorldSave;
+  frames: number[][];
+}
 
-// --- GAME STATE ---
+type GameState = 'playerSelect' | 'playing' | 'paused' | 'editor' | 'lobby' | 'controls' | 'settings' | 'enterInitials' | 'leaderboard' | 'achievements' | 'attract';
+
+type MenuItem = 'continue' | '1p' | '2p' | 'cpu' | 'versus' | 'online' | 'editor' | 'controls' | 'settings' | 'leaderboard' | 'achievements';
+
+const MENU_LABELS: Record<MenuItem, string> = {
+    continue: 'CONTINUE',
+    '1p': '1 PLAYER',
+    '2p': '2 PLAYERS',
+    cpu: '1P + CPU',
+    versus: 'VERSUS',
+    online: 'ONLINE CO-OP',
+    editor: 'LEVEL EDITOR',
+    controls: 'CONTROLS',
+    settings: 'SETTINGS',
+    leaderboard: 'HIGH SCORES',
+    achievements: 'ACHIEVEMENTS',
+};
+
+// --- APP STATE ---
 let highScore = parseInt(localStorage.getItem(HIGH_SCORE_KEY) || '0');
-let level = 1;
-let players: Player[] = [];
-let enemies: Enemy[] = [];
-let platforms: Platform[] = [];
-let particles: Particle[] = [];
-let explosiveBlock: ExplosiveBlock;
-let keys: { [key: string]: boolean } = {};
-let gameState: 'playerSelect' | 'playing' | 'gameOver' | 'levelTransition' | 'paused' = 'playerSelect';
-let levelTransitionTimer = 0;
-let playerSelectOption = 1;
-
-
-// --- UTILITY FUNCTIONS ---
-function randomInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1) + min);
-}
-
-// --- CLASSES ---
-class Player {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  vy: number;
-  onGround: boolean;
-  sprite: string;
-  onFrozenPlatform: boolean;
-  controls: { left: string; right: string; jump: string };
-  isDead: boolean;
-  score: number;
-  lives: number;
-  nextExtraLifeScore: number;
-  scoreEl: HTMLElement;
-  livesEl: HTMLElement;
-
-  constructor(id: number, controls: { left: string; right: string; jump: string; }, sprite: string) {
-    this.id = id;
-    this.width = 40;
-    this.height = 40;
-    this.x = GAME_WIDTH / 2 - this.width / 2 + (id === 1 ? -50 : 50);
-    this.y = GAME_HEIGHT - this.height - 50;
-    this.vx = 0;
-    this.vy = 0;
-    this.onGround = false;
-    this.sprite = sprite;
-    this.onFrozenPlatform = false;
-    this.controls = controls;
-    this.isDead = false;
-
-    this.score = 0;
-    this.lives = LIVES_START;
-    this.nextExtraLifeScore = EXTRA_LIFE_SCORE;
-
-    this.scoreEl = document.getElementById(`p${id}-score`)!;
-    this.livesEl = document.getElementById(`p${id}-lives`)!;
-  }
-
-  draw() {
-    if(this.isDead) return;
-    ctx.font = '40px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(this.sprite, this.x + this.width / 2, this.y + this.height / 2);
-  }
-
-  update() {
-    if(this.isDead) return;
-    // Horizontal movement
-    if (this.onFrozenPlatform) {
-        if (!keys[this.controls.left] && !keys[this.controls.right]) {
-            this.vx *= 0.97; // friction
-            if (Math.abs(this.vx) < 0.1) this.vx = 0;
-        } else {
-             if (keys[this.controls.left]) this.vx = -PLAYER_SPEED;
-             if (keys[this.controls.right]) this.vx = PLAYER_SPEED;
-        }
-    } else {
-        this.vx = 0;
-        if (keys[this.controls.left]) this.vx = -PLAYER_SPEED;
-        if (keys[this.controls.right]) this.vx = PLAYER_SPEED;
-    }
-    this.x += this.vx;
-
-    // Screen wrap
-    if (this.x < -this.width) this.x = GAME_WIDTH;
-    if (this.x > GAME_WIDTH) this.x = -this.width;
-
-    // Vertical movement
-    this.vy += GRAVITY;
-    this.y += this.vy;
-    this.onGround = false;
-    this.onFrozenPlatform = false;
-  }
-
-  jump() {
-    if (this.onGround && !this.isDead) {
-      this.vy = PLAYER_JUMP;
-    }
-  }
-
-  die() {
-    if(this.isDead) return;
-    this.lives--;
-    updateUI();
-    for (let i = 0; i < 50; i++) {
-        particles.push(new Particle(this.x + this.width / 2, this.y + this.height / 2, this.sprite));
-    }
+let world: GameWorld | null = null;
+let gameState: GameState = 'playerSelect';
+let playerSelectOption = 0; // Index into menuItems()
+let playtesting = false; // The running game was launched from the editor and returns there
+let levelPack = classicLevelPack;
+let menuNotice = ''; // One-line status (e.g. a load error) shown on the title screen
+let lastFrameTime = 0;
+let idleTime = 0; // ms on the title screen since the last key or tap
+let tickAccumulator = 0;
+let recording: Replay | null = null;
+let playback: { replay: Replay; frame: number } | null = null;
+let online: LockstepSession | null = null; // Set while playing with a partner over the relay
+let cpu: Bot | null = null; // Plays player 2 in a 1P + CPU game
+let cpuDifficulty = loadCpuDifficulty(); // For the next 1P + CPU game
+let pendingScores: PendingScore[] = []; // Finished-game scores still waiting for initials
+let initialsEntry: InitialsEntry | null = null;
+let lastLeaderboardRank: number | null = null;
+
+
+function startGame(numPlayers: number, seed = Math.floor(Math.random() * 0x100000000), pack = levelPack, mode: GameMode = 'coop') {
+    if (!playback && !playtesting) clearSavedRun();
+    beginRun(new GameWorld(numPlayers, seed, pack, mode), {
+        seed,
+        numPlayers,
+        mode: mode === 'coop' ? undefined : mode,
+        levelPack: pack === classicLevelPack ? undefined : pack,
+    });
+}
 
-    if (this.lives <= 0) {
-        this.isDead = true;
-        checkGameOver();
-    } else {
-        // Respawn player
-        this.x = GAME_WIDTH / 2 - this.width / 2;
-        this.y = GAME_HEIGHT - this.height - 100;
-        this.vx = 0;
-        this.vy = 0;
-    }
-  }
+// Switch to a freshly built or restored world. `replayStart` says how a replay of it begins.
+function beginRun(newWorld: GameWorld, replayStart: Omit<Replay, 'version' | 'frames'>) {
+    recording = playback ? null : { version: REPLAY_VERSION, ...replayStart, frames: [] };
+    input.clearPresses();
+    menuNotice = '';
+    world = newWorld;
+    world.particles.density = accessibility.particleDensity();
+    touch.setPlayers(online || cpu ? 1 : newWorld.players.length); // Online, each screen only steers its own player
+    hud.showPlayerTwo(newWorld.players.length === 2);
+    gameState = 'playing';
+    announcer.announce(`Level ${newWorld.level}`);
+    toasts.clear();
+    if (!playback && !playtesting) achievements.startRun(newWorld.level);
+}
 
-   addScore(points: number) {
-    this.score += points;
-    if (this.score >= this.nextExtraLifeScore) {
-        this.lives++;
-        this.nextExtraLifeScore += EXTRA_LIFE_SCORE;
-    }
+function menuItems(): MenuItem[] {
+    return [...(hasSavedRun() ? ['continue' as const] : []), '1p', '2p', 'cpu', 'versus', 'online', 'editor', 'controls', 'settings', 'leaderboard', 'achievements'];
+}
 
-    if (this.score > highScore) {
-        highScore = this.score;
-        localStorage.setItem(HIGH_SCORE_KEY, highScore.toString());
-    }
-    updateUI();
-  }
+function menuLabel(item: MenuItem) {
+    return item === 'cpu' ? `${MENU_LABELS.cpu} (${cpuDifficulty.toUpperCase()})` : MENU_LABELS[item];
 }
 
-class Enemy {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    vx: number;
-    vy: number;
-    sprite: string;
-    isFlipped: boolean;
-    flipTimer: number;
-    onGround: boolean;
-    hitAnimationTimer: number;
-
-    constructor(x: number, y: number, width: number, height: number, sprite: string) {
-        this.width = width;
-        this.height = height;
-        this.x = x;
-        this.y = y;
-        this.vx = 0;
-        this.vy = 0;
-        this.sprite = sprite;
-        this.isFlipped = false;
-        this.flipTimer = 0;
-        this.onGround = false;
-        this.hitAnimationTimer = 0;
-    }
+// --- CPU PARTNER ---
+function loadCpuDifficulty(): BotDifficulty {
+    const stored = localStorage.getItem(CPU_DIFFICULTY_KEY);
+    return BOT_DIFFICULTIES.find(d => d === stored) ?? 'normal';
+}
 
-    draw() {
-        ctx.save();
-        if (this.hitAnimationTimer > 0 && Math.floor(this.hitAnimationTimer / 50) % 2 === 0) {
-            ctx.restore();
-            return;
-        }
-        if (this.isFlipped) {
-            ctx.translate(this.x + this.width / 2, this.y + this.height / 2);
-            ctx.rotate(Math.PI);
-            ctx.translate(-(this.x + this.width / 2), -(this.y + this.height / 2));
-        }
-        ctx.font = '36px sans-serif';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText(this.sprite, this.x + this.width / 2, this.y + this.height / 2);
-        ctx.restore();
-    }
+// Step through BOT_DIFFICULTIES, stopping at either end.
+function changeCpuDifficulty(steps: number) {
+    const index = Math.max(0, Math.min(BOT_DIFFICULTIES.length - 1, BOT_DIFFICULTIES.indexOf(cpuDifficulty) + steps));
+    cpuDifficulty = BOT_DIFFICULTIES[index];
+    localStorage.setItem(CPU_DIFFICULTY_KEY, cpuDifficulty);
+}
 
-    update() {
-        if (this.hitAnimationTimer > 0) this.hitAnimationTimer -= 1000 / 60;
+// A co-op game for two with the bot on player 2's controls. Its inputs are recorded like anyone's, so replays need no bot.
+function startCpuGame() {
+    cpu = new Bot(1, cpuDifficulty, Math.floor(Math.random() * 0x100000000));
+    startGame(2);
+}
 
-        if (this.isFlipped) {
-            this.flipTimer -= 1000 / 60;
-            if (this.flipTimer <= 0) {
-                this.isFlipped = false;
-                this.y -= 5;
-            }
-        }
+// The players the app answers to: everyone but the CPU partner.
+function humanPlayers(w: GameWorld) {
+    return w.players.filter((_, i) => i !== cpu?.playerIndex);
+}
 
-        // Horizontal screen exit -> respawn at top
-        if (this.x + this.width < 0 || this.x > GAME_WIDTH) {
-            const spawnPoint = spawnPoints[randomInt(0, spawnPoints.length - 1)];
-            this.x = spawnPoint.x;
-            this.y = spawnPoint.y;
-            this.vy = 0;
-        }
+// The players at this machine: online, only the one it steers.
+function localPlayers(w: GameWorld) {
+    return online ? [w.players[online.localIndex]] : humanPlayers(w);
+}
 
-        this.vy += GRAVITY;
-        this.y += this.vy;
-        this.onGround = false;
-
-
-        platforms.forEach(p => {
-            // Collision with all platforms, including floor
-            if (this.x < p.x + p.width && this.x + this.width > p.x &&
-                this.y + this.height >= p.y && this.y + this.height <= p.y + p.height + 10 && this.vy >= 0) {
-                this.y = p.y - this.height;
-                this.vy = 0;
-                this.onGround = true;
-                if (!p.isFloor) { 
-                    this.x += p.vx;
-                }
-            }
-        });
-    }
+// --- SAVED RUNS ---
+function hasSavedRun() {
+    return localStorage.getItem(SAVED_RUN_KEY) !== null;
+}
 
-    flip() {
-        if (!this.isFlipped) {
-            this.isFlipped = true;
-            this.flipTimer = FLIP_DURATION;
-            this.vy = -5;
-        }
-    }
+// Only real local co-op runs are saved: not replays, editor play-tests, versus or online games, or a finished game.
+function saveRun() {
+    if (!world || playback || playtesting || online || world.mode === 'versus' || world.phase === 'gameOver') return;
+    localStorage.setItem(SAVED_RUN_KEY, JSON.stringify(serializeWorld(world)));
+    if (cpu) localStorage.setItem(SAVED_CPU_KEY, cpu.difficulty);
+    else localStorage.removeItem(SAVED_CPU_KEY);
 }
 
-class BasicEnemy extends Enemy {
-    constructor(x: number, y: number) {
-        super(x, y, 36, 36, '👾');
-        this.vx = (Math.random() < 0.5 ? 1 : -1) * ENEMY_SPEED;
-    }
-    update() {
-        super.update();
-        if (!this.isFlipped) this.x += this.vx;
-    }
+function clearSavedRun() {
+    localStorage.removeItem(SAVED_RUN_KEY);
+    localStorage.removeItem(SAVED_CPU_KEY);
 }
 
-class FastEnemy extends Enemy {
-    constructor(x: number, y: number) {
-        super(x, y, 36, 36, '👻');
-        this.vx = (Math.random() < 0.5 ? 1 : -1) * ENEMY_SPEED * 1.8;
-    }
-    update() {
-        super.update();
-        if (!this.isFlipped) this.x += this.vx;
+function continueRun() {
+    try {
+        const save = JSON.parse(localStorage.getItem(SAVED_RUN_KEY)!) as WorldSave;
+        const restored = deserializeWorld(save);
+        const difficulty = BOT_DIFFICULTIES.find(d => d === localStorage.getItem(SAVED_CPU_KEY));
+        cpu = difficulty ? new Bot(1, difficulty, Math.floor(Math.random() * 0x100000000)) : null;
+        beginRun(restored, { seed: 0, numPlayers: save.players.length, start: save });
+    } catch (err) {
+        // A save this build cannot read is no use to anyone; drop it so the menu stops offering it
+        clearSavedRun();
+        showLoadError('saved run')(err);
     }
 }
 
-class JumpingEnemy extends Enemy {
-    jumpCooldown: number;
-    constructor(x: number, y: number) {
-        super(x, y, 36, 36, '👽');
-        this.vx = (Math.random() < 0.5 ? 1 : -1) * ENEMY_SPEED * 0.8;
-        this.jumpCooldown = randomInt(80, 200);
-    }
-    update() {
-        super.update();
-        this.jumpCooldown--;
-        if (this.onGround && this.jumpCooldown <= 0 && !this.isFlipped) {
-            this.vy = -8;
-            this.onGround = false;
-            this.jumpCooldown = randomInt(100, 300);
+// --- INPUT ---
+// Gather this tick's input, either from the players' devices or from the replay being played back.
+function nextInputFrame(world: GameWorld): InputFrame | null {
+    if (playback) {
+        const frame = playback.replay.frames[playback.frame++];
+        if (!frame) {
+            stopPlayback();
+            return null;
         }
-        if (!this.isFlipped) this.x += this.vx;
+        return frame.map(decodeInput);
     }
+    const frame = input.frame(world.players.length);
+    if (cpu) frame[cpu.playerIndex] = cpu.decide(world);
+    recording?.frames.push(frame.map(encodeInput));
+    return frame;
 }
 
-class IceBomberEnemy extends Enemy {
-    timer: number;
-    platform: Platform | null;
-    constructor(x: number, y: number, platform: Platform) {
-        super(x, y, 36, 36, '💣');
-        this.vx = 0;
-        this.timer = randomInt(3000, 5000);
-        this.platform = platform;
-        this.y = platform.y - this.height;
-        this.x = platform.x + (platform.width / 2) - (this.width / 2);
-    }
-    update() {
-        super.update();
-        this.timer -= 1000 / 60;
-        if (this.timer <= 0 && !this.isFlipped) {
-            this.explode();
-        }
-        if (this.platform) {
-            this.x = this.platform.x + (this.platform.width / 2) - (this.width / 2);
-        }
-    }
-    explode() {
-        const index = enemies.indexOf(this);
-        if (index > -1) enemies.splice(index, 1);
-        for (let i = 0; i < 40; i++) particles.push(new Particle(this.x, this.y, this.sprite));
-        if (this.platform) this.platform.freeze();
+// --- MAIN LOOP ---
+function update() {
+    if (gameState === 'attract') {
+        attract.tick();
+        return;
     }
-    flip() {
-        this.timer = Math.min(this.timer, 100);
+    if (!world || gameState === 'paused' || gameState === 'editor') return;
+    if (online) {
+        // Late partner input can rewrite the last few ticks, a game over included
+        online.resolveRollback();
+        world = online.world;
+        recording?.frames.push(...online.takeConfirmedFrames().map(frame => frame.map(encodeInput)));
     }
-}
 
-class ToughEnemy extends Enemy {
-    hitsLeft: number;
-    constructor(x: number, y: number) {
-        super(x, y, 40, 40, '👹');
-        this.vx = (Math.random() < 0.5 ? 1 : -1) * ENEMY_SPEED * 0.7;
-        this.hitsLeft = 2;
-    }
-    flip() {
-        if (this.isFlipped) return;
-        this.hitsLeft--;
-        this.vy = -3;
-        if (this.hitsLeft <= 0) {
-            super.flip();
+    if (world.phase === 'gameOver') {
+        // Let the last particles finish; game-over ticks are never recorded
+        world.step([]);
+    } else {
+        const phaseBefore = world.phase;
+        if (online) {
+            if (!stepOnline(online)) return;
         } else {
-            this.hitAnimationTimer = 300;
-            this.sprite = '👺';
+            const frame = nextInputFrame(world);
+            if (!frame) return;
+            world.step(frame);
+        }
+        world.events.forEach(e => {
+            audio.playEvent(e);
+            announcer.announceEvent(e);
+        });
+        // Like high scores, achievements are only for real play
+        if (!playback && !playtesting) {
+            // What a partner does, online or CPU, is theirs; events about the whole game count for everyone
+            const local = localPlayers(world).map(p => p.id);
+            const events = world.events.filter(e => !('playerId' in e) || local.includes(e.playerId));
+            achievements.track(events).forEach(a => {
+                toasts.show(a);
+                announcer.announce(`Achievement unlocked: ${a.title}`);
+            });
+        }
+        const phaseAfter = world.phase as WorldPhase; // Not narrowed: step() moves it on
+        if (playtesting && phaseAfter === 'levelTransition') {
+            editor.notice = 'Level cleared!';
+            returnToMenu();
+            return;
+        }
+        if (phaseBefore === 'playing' && phaseAfter === 'levelTransition') saveRun();
+        if (phaseAfter === 'gameOver' && !playback && !playtesting) {
+            clearSavedRun();
+            // A CPU partner's help would skew the tables, so bot-assisted runs stay off them
+            if (world.mode === 'coop' && !cpu) queueLeaderboardScores(world);
         }
     }
-    update() {
-        super.update();
-        if (!this.isFlipped) this.x += this.vx;
+
+    const best = Math.max(...localPlayers(world).map(p => p.score));
+    if (!playback && !playtesting && best > highScore) {
+        highScore = best;
+        localStorage.setItem(HIGH_SCORE_KEY, highScore.toString());
     }
 }
 
+// Advance the online game by a tick, unless it is already as far ahead of the partner as it may run.
+function stepOnline(session: LockstepSession): boolean {
+    if (!session.canAdvance()) return false;
+    const local = input.frame(1)[0]; // Each browser plays with player 1's controls
+    net.send({ type: 'input', tick: session.addLocalInput(local), bits: encodeInput(local) });
+    session.advance();
+    world = session.world;
+    session.takeChecksums().forEach(({ tick, sum }) => net.send({ type: 'checksum', tick, sum }));
+    return true;
+}
 
-class Platform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  color: string;
-  isFloor: boolean;
-  isFrozen: boolean;
-  frozenTimer: number;
-  vx: number;
-  startX: number;
-  range: number;
-
-  constructor(x: number, y: number, width: number, height = 20, isFloor = false) {
-    this.x = x;
-    this.y = y;
-    this.width = width;
-    this.height = height;
-    this.color = '#0074D9';
-    this.isFloor = isFloor;
-    this.isFrozen = false;
-    this.frozenTimer = 0;
-    this.vx = 0;
-    this.startX = x;
-    this.range = 0;
-  }
-
-  draw() {
-    ctx.fillStyle = this.isFrozen ? '#7FDBFF' : this.color;
-    ctx.fillRect(this.x, this.y, this.width, this.height);
-  }
+// `alpha` is how far the renderer sits between the last two simulation ticks (0..1).
+function draw(alpha: number) {
+    renderer.clear();
+
+    if (gameState === 'editor') {
+        editor.draw(renderer);
+        return;
+    }
+    if (gameState === 'lobby') {
+        lobbyMenu.draw(renderer);
+        touch.drawBackButton(renderer);
+        return;
+    }
+    if (gameState === 'controls') {
+        controlsMenu.draw(renderer);
+        touch.drawBackButton(renderer);
+        return;
+    }
+    if (gameState === 'settings') {
+        settingsMenu.draw(renderer);
+        touch.drawBackButton(renderer);
+        return;
+    }
+    if (gameState === 'enterInitials' && initialsEntry) {
+        initialsEntry.draw(renderer, touch.enabled);
+        return;
+    }
+    if (gameState === 'leaderboard') {
+        leaderboardScreen.draw(renderer);
+        touch.drawBackButton(renderer);
+        return;
+    }
+    if (gameState === 'achievements') {
+        achievementsScreen.draw(renderer);
+        touch.drawBackButton(renderer);
+        return;
+    }
+    if (gameState === 'attract') {
+        attract.draw(renderer, alpha);
+        return;
+    }
+    if (gameState === 'playerSelect' || !world) {
+        renderer.drawPlayerSelect(menuItems().map(menuLabel), playerSelectOption, levelPack.name, menuNotice);
+        return;
+    }
+
+    renderer.drawWorld(world, alpha);
+    renderer.drawPowerUpTimers(world);
+    renderer.drawBossHealth(world);
+    if (world.mode === 'versus') renderer.drawVersusStatus(world);
+    if (world.phase === 'bonusStage') renderer.drawBonusStatus(world);
+    if (gameState === 'paused') {
+        renderer.drawBanner('PAUSED');
+    } else if (world.phase === 'levelTransition' && world.bossDefeated) {
+        renderer.drawBossDefeated(BOSS_BONUS);
+    } else if (world.phase === 'levelTransition' && world.bonusStageNext) {
+        renderer.drawBanner('BONUS STAGE');
+    } else if (world.phase === 'levelTransition') {
+        renderer.drawBanner(world.isBossLevel(world.level) ? `BOSS LEVEL ${world.level}` : `LEVEL ${world.level}`);
+    } else if (world.phase === 'bonusTally') {
+        renderer.drawBonusTally(world);
+    } else if (world.phase === 'roundOver') {
+        renderer.drawRoundResults(world);
+    } else if (world.phase === 'gameOver' && world.mode === 'versus') {
+        renderer.drawMatchResults(world, recording !== null);
+    } else if (world.phase === 'gameOver') {
+        renderer.drawGameOver(recording !== null, pendingScores.length > 0);
+    }
+    if (playback) renderer.drawReplayBadge();
+    if (online) renderer.drawOnlineBadge(!online.canAdvance());
+    renderer.drawParticles(world.particles.live, alpha);
+    toasts.draw(renderer, performance.now());
+    touch.draw(renderer);
+}
 
-  update() {
-      if(this.isFrozen) {
-          this.frozenTimer -= 1000/60;
-          if(this.frozenTimer <= 0) this.isFrozen = false;
-      }
-      if (this.vx !== 0) {
-          this.x += this.vx;
-          if (this.x <= this.startX || this.x >= this.startX + this.range) {
-              this.vx *= -1;
-          }
-      }
+// Fixed-timestep loop: the simulation always advances in TICK_MS steps regardless
+// of the display refresh rate, and rendering interpolates between the last two ticks.
+function gameLoop(timestamp: number) {
+  if (lastFrameTime === 0) lastFrameTime = timestamp;
+  const frameTime = Math.min(timestamp - lastFrameTime, MAX_FRAME_TIME);
+  lastFrameTime = timestamp;
+
+  // Pads are sampled once per frame; their menu buttons act like the matching keys
+  input.poll().forEach(key => { if (gameState !== 'editor') handleKey(key); });
+  handlePause();
+  // Left alone, the title screen falls into attract mode
+  idleTime = gameState === 'playerSelect' ? idleTime + frameTime : 0;
+  if (idleTime >= ATTRACT_DELAY) startAttract();
+  // Partner input arrives between frames, never in the middle of a tick
+  net.takeEvents().forEach(handleNetEvent);
+
+  // Slower game speeds feed the simulation fewer ticks; an online game has to keep pace with the partner
+  tickAccumulator += online ? frameTime : frameTime * accessibility.settings.gameSpeed;
+  while (tickAccumulator >= TICK_MS) {
+    update();
+    tickAccumulator -= TICK_MS;
   }
+  if (online && online.desyncTick !== null) leaveOnlineGame(`Lost sync with your partner at tick ${online.desyncTick}`);
 
-  freeze() {
-      this.isFrozen = true;
-      this.frozenTimer = 7000;
-  }
+  // Music plays during a run, and stops for pauses, menus and the game-over screen
+  audio.setMusicPlaying(gameState === 'playing' && world !== null && world.phase !== 'gameOver');
+  audio.update();
 
-  makeMobile(speed: number, range: number) {
-      this.vx = speed;
-      this.range = range;
-      if (speed < 0) {
-          this.startX = this.x - range;
-      }
-      return this;
-  }
+  draw(tickAccumulator / TICK_MS);
+  hud.update(world, highScore);
+  requestAnimationFrame(gameLoop);
 }
 
-class ExplosiveBlock {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    initialHeight: number;
-    usesLeft: number;
-    cooldown: number;
-    
-    constructor() {
-        this.width = 50;
-        this.initialHeight = 50;
-        this.height = this.initialHeight;
-        this.x = GAME_WIDTH / 2 - this.width / 2;
-        this.y = GAME_HEIGHT - 180;
-        this.usesLeft = EXPLOSIVE_BLOCK_USES;
-        this.cooldown = 0;
-    }
-    
-    draw() {
-        if (this.usesLeft <= 0) return;
-
-        ctx.save();
-        if (this.cooldown > 0) ctx.globalAlpha = 0.5;
-        ctx.fillStyle = '#ff4136';
-        ctx.fillRect(this.x, this.y, this.width, this.height);
-        ctx.strokeStyle = '#fff';
-        ctx.lineWidth = 3;
-        ctx.strokeRect(this.x, this.y, this.width, this.height);
-        ctx.fillStyle = '#fff';
-        ctx.font = '30px "Press Start 2P"';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText('B', this.x + this.width / 2, this.y + this.height / 2 + 2);
-        ctx.restore();
-    }
+// --- REPLAYS ---
+function saveReplay() {
+    if (!recording) return;
+    downloadJson(`draicor-bros-replay-${recording.seed}.json`, recording);
+}
 
-    update() {
-        if (this.cooldown > 0) this.cooldown -= 1000/60;
-    }
+function showLoadError(what: string) {
+    return (err: unknown) => {
+        console.error(`Could not load ${what}:`, err);
+        menuNotice = err instanceof Error ? err.message : String(err);
+    };
+}
 
-    hit() {
-        if (this.usesLeft > 0 && this.cooldown <= 0) {
-            this.usesLeft--;
-            this.cooldown = 500;
-            enemies.forEach(e => e.flip());
-            for (let i = 0; i < 50; i++) {
-                particles.push(new Particle(this.x + this.width / 2, this.y, '💥'));
-            }
-            // Flattening effect
-            const flattenAmount = this.initialHeight / EXPLOSIVE_BLOCK_USES;
-            this.height -= flattenAmount;
-            this.y += flattenAmount;
+function loadReplay() {
+    pickJsonFile(data => {
+        const replay = data as Replay;
+        if (replay.version !== REPLAY_VERSION || !Array.isArray(replay.frames)) {
+            throw new Error(`Unsupported replay version ${replay.version}`);
         }
-    }
+        startPlayback(replay);
+    }, showLoadError('replay'));
+}
 
-    reset() {
-        this.usesLeft = EXPLOSIVE_BLOCK_USES;
-        this.height = this.initialHeight;
-        this.y = GAME_HEIGHT - 180;
-    }
+function loadLevelPack() {
+    pickJsonFile(data => {
+        levelPack = parseLevelPack(data);
+        menuNotice = `Loaded level pack "${levelPack.name}"`;
+    }, showLoadError('level pack'));
 }
 
-class Particle {
-    x: number;
-    y: number;
-    size: number;
-    vx: number;
-    vy: number;
-    sprite: string;
-    life: number;
-    isEmoji: boolean;
-
-    constructor(x: number, y: number, sprite: string) {
-        this.x = x;
-        this.y = y;
-        this.sprite = sprite;
-        this.isEmoji = /\p{Emoji}/u.test(sprite);
-        this.size = this.isEmoji ? 20 : Math.random() * 5 + 2;
-        this.vx = (Math.random() - 0.5) * 8;
-        this.vy = (Math.random() - 0.5) * 8;
-        this.life = 100;
+function startPlayback(replay: Replay) {
+    playback = { replay, frame: 0 };
+    if (replay.start) {
+        beginRun(deserializeWorld(replay.start), replay);
+    } else {
+        startGame(replay.numPlayers, replay.seed, replay.levelPack ? parseLevelPack(replay.levelPack) : classicLevelPack, replay.mode);
     }
+}
 
-    draw() {
-        ctx.globalAlpha = this.life / 100;
-        if (this.isEmoji) {
-            ctx.font = `${this.size}px sans-serif`;
-            ctx.fillText(this.sprite, this.x, this.y);
-        } else {
-            ctx.fillStyle = this.sprite;
-            ctx.fillRect(this.x, this.y, this.size, this.size);
+// The replay ran out of frames; hold the final state on the game-over screen.
+function stopPlayback() {
+    playback = null;
+    if (world) world.phase = 'gameOver';
+}
+
+// --- ONLINE CO-OP ---
+function handleNetEvent(event: NetEvent) {
+    switch (event.type) {
+        case 'peerJoined': {
+            // The host picks the game and tells the guest to start the same one
+            const seed = Math.floor(Math.random() * 0x100000000);
+            net.send({ type: 'start', seed, levelPack: levelPack === classicLevelPack ? undefined : levelPack });
+            startOnlineGame(seed, levelPack, 0);
+            break;
         }
-        ctx.globalAlpha = 1.0;
+        case 'start': {
+            // A pack the host could play but we can't parse leaves nothing to play together
+            let pack: LevelPack;
+            try {
+                pack = event.levelPack ? parseLevelPack(event.levelPack) : classicLevelPack;
+            } catch (err) {
+                console.error('Could not load the host\'s level pack:', err);
+                leaveOnlineGame(err instanceof Error ? err.message : String(err));
+                break;
+            }
+            startOnlineGame(event.seed, pack, 1);
+            break;
+        }
+        case 'input':
+            online?.addRemoteInput(event.tick, decodeInput(event.bits));
+            break;
+        case 'checksum':
+            online?.addRemoteChecksum(event.tick, event.sum);
+            break;
+        case 'peerLeft':
+        case 'disconnected':
+            // Once the game is over there is nothing left to share, so the partner may go in peace
+            if (online && world?.phase !== 'gameOver') {
+                leaveOnlineGame(event.type === 'peerLeft' ? 'Your partner left the game' : 'Lost connection to the relay server');
+            }
+            break;
     }
+}
 
-    update() {
-        this.x += this.vx;
-        this.y += this.vy;
-        this.vy += GRAVITY * 0.1;
-        this.life--;
-        if(this.isEmoji && this.size > 0.2) this.size -= 0.2;
-    }
+// The host plays player 1 and the guest player 2.
+function startOnlineGame(seed: number, pack: LevelPack, localIndex: number) {
+    const newWorld = new GameWorld(2, seed, pack);
+    online = new LockstepSession(newWorld, localIndex);
+    beginRun(newWorld, { seed, numPlayers: 2, levelPack: pack === classicLevelPack ? undefined : pack });
 }
 
-const levelLayouts = [
-    () => [
-        new Platform(0, 550, 250),
-        new Platform(GAME_WIDTH - 250, 550, 250),
-        new Platform(300, 400, 360),
-        new Platform(0, 250, 350),
-        new Platform(GAME_WIDTH - 350, 250, 350),
-    ],
-    () => [
-        new Platform(0, 580, 200),
-        new Platform(GAME_WIDTH - 200, 580, 200),
-        new Platform(250, 450, 150),
-        new Platform(GAME_WIDTH - 400, 450, 150),
-        new Platform(0, 300, 200),
-        new Platform(GAME_WIDTH - 200, 300, 200),
-        new Platform(300, 180, 360),
-    ],
-    () => [
-        new Platform(0, 550, 200),
-        new Platform(GAME_WIDTH - 200, 550, 200),
-        new Platform(380, 400, 200).makeMobile(1, 100),
-        new Platform(0, 250, 300),
-        new Platform(GAME_WIDTH - 300, 250, 300),
-    ],
-     () => [
-        new Platform(0, 580, 150).makeMobile(1.2, 80),
-        new Platform(GAME_WIDTH - 150, 580, 150).makeMobile(-1.2, 80),
-        new Platform(300, 420, 360),
-        new Platform(0, 250, 350).makeMobile(1.5, 150),
-        new Platform(GAME_WIDTH - 350, 250, 350).makeMobile(-1.5, 150),
-    ],
-];
-
-function startGame(numPlayers: number) {
-    level = 1;
-    players = [];
-    const p1Controls = { left: 'a', right: 'd', jump: 'w' };
-    players.push(new Player(1, p1Controls, '🤖'));
-
-    if (numPlayers === 2) {
-        const p2Controls = { left: 'arrowleft', right: 'arrowright', jump: 'arrowup' };
-        players.push(new Player(2, p2Controls, '🧑‍🚀'));
-        p2Ui.classList.remove('hidden');
-    } else {
-        p2Ui.classList.add('hidden');
-    }
+function leaveOnlineGame(notice: string) {
+    returnToMenu();
+    menuNotice = notice;
+}
 
-    explosiveBlock = new ExplosiveBlock();
-    setupLevel(level);
-    updateUI();
-    gameState = 'playing';
+// --- LEADERBOARD ---
+function queueLeaderboardScores(finished: GameWorld) {
+    const players = finished.players.length;
+    // Each machine records its own player's score; the partner's is theirs to enter
+    pendingScores = localPlayers(finished)
+        .filter(p => leaderboard.qualifies(players, p.score))
+        .map(p => ({ playerId: p.id, score: p.score, level: finished.level, players }));
+    lastLeaderboardRank = null;
 }
 
-function setupLevel(levelNum: number) {
-  const layoutIndex = Math.floor((levelNum -1) / 4) % levelLayouts.length;
-  platforms = [
-    new Platform(0, GAME_HEIGHT - 40, GAME_WIDTH, 40, true),
-    ...levelLayouts[layoutIndex](),
-  ];
-  platforms.forEach(p => { p.isFrozen = false; }); // Unfreeze platforms on new level
-  enemies = [];
-  explosiveBlock.reset();
-  
-  const finalLevel = Math.min(levelNum, 50);
-  const enemyCount = 2 + Math.floor(finalLevel / 2);
-
-  for (let i = 0; i < enemyCount; i++) {
-    const spawnPoint = spawnPoints[randomInt(0, spawnPoints.length - 1)];
-    const x = spawnPoint.x;
-    const y = spawnPoint.y;
-
-    let enemyType = Math.random();
-    
-    if (finalLevel >= 25 && enemyType < 0.15) {
-         enemies.push(new ToughEnemy(x, y));
-    } else if (finalLevel >= 20 && enemyType < 0.3) {
-        const validPlatforms = platforms.filter(p => !p.isFloor && p.vx === 0 && !enemies.some(e => e instanceof IceBomberEnemy && e.platform === p));
-        if (validPlatforms.length > 0) {
-           const platformForBomber = validPlatforms[randomInt(0, validPlatforms.length - 1)];
-           enemies.push(new IceBomberEnemy(0, 0, platformForBomber));
-        } else {
-            enemies.push(new BasicEnemy(x,y));
+// Ask the next qualifying player for initials, or show the table once everyone is in.
+function nextInitialsEntry() {
+    while (pendingScores.length > 0) {
+        const pending = pendingScores.shift()!;
+        // An earlier entry from the same game may have pushed this score off the table
+        if (leaderboard.qualifies(pending.players, pending.score)) {
+            initialsEntry = new InitialsEntry(pending);
+            gameState = 'enterInitials';
+            return;
         }
-    } else if (finalLevel >= 10 && enemyType < 0.5) {
-        enemies.push(new JumpingEnemy(x, y));
-    } else if (finalLevel >= 5 && enemyType < 0.75) {
-        enemies.push(new FastEnemy(x, y));
-    } else {
-        enemies.push(new BasicEnemy(x, y));
     }
-  }
+    initialsEntry = null;
+    if (lastLeaderboardRank === null) {
+        returnToMenu();
+        return;
+    }
+    leaderboardScreen.show(world ? humanPlayers(world).length : 1, lastLeaderboardRank);
+    gameState = 'leaderboard';
 }
 
-function update() {
-    if (gameState === 'playing') {
-        players.forEach(p => p.update());
-        enemies.forEach(e => e.update());
-        platforms.forEach(p => p.update());
-        explosiveBlock.update();
-        handleCollisions();
-        if (enemies.length === 0 && players.some(p => !p.isDead)) {
-            level++;
-            gameState = 'levelTransition';
-            levelTransitionTimer = LEVEL_TRANSITION_TIME;
-        }
-    } else if (gameState === 'levelTransition') {
-        levelTransitionTimer -= 1000 / 60;
-        if (levelTransitionTimer <= 0) {
-            setupLevel(level);
-            gameState = 'playing';
-        }
-    }
-  particles.forEach(p => p.update());
-  particles = particles.filter(p => p.life > 0);
-}
-
-function handleCollisions() {
-    players.forEach(player => {
-        if(player.isDead) return;
-
-        // Player vs Explosive Block (as a platform)
-        const block = explosiveBlock;
-        if (block.usesLeft > 0 &&
-            player.x < block.x + block.width && player.x + player.width > block.x &&
-            player.y + player.height >= block.y && player.y + player.height <= block.y + 10 + player.vy && player.vy >= 0) {
-            player.y = block.y - player.height;
-            player.vy = 0;
-            player.onGround = true;
-        }
+function submitInitials(entry: InitialsEntry) {
+    const { score, level, players } = entry.pending;
+    const rank = leaderboard.add({ initials: entry.initials, score, level, players, date: new Date().toISOString().slice(0, 10) });
+    if (rank > -1) lastLeaderboardRank = rank;
+    nextInitialsEntry();
+}
 
-        // Player vs Platforms
-        let onAnyPlatform = player.onGround;
-        let isCurrentlyOnFrozenPlatform = false;
-        platforms.forEach(p => {
-            if (player.x < p.x + p.width && player.x + player.width > p.x &&
-                player.y + player.height >= p.y && player.y + player.height <= p.y + p.height + player.vy && player.vy >= 0) {
-                player.y = p.y - player.height;
-                player.vy = 0;
-                player.onGround = true;
-                onAnyPlatform = true;
-                if (p.isFrozen) isCurrentlyOnFrozenPlatform = true;
-                player.x += p.vx;
-            }
+function returnToMenu() {
+    playback = null;
+    online = null;
+    cpu = null;
+    net.close();
+    pendingScores = [];
+    initialsEntry = null;
+    world = null;
+    touch.release();
+    gameState = playtesting ? 'editor' : 'playerSelect';
+    playtesting = false;
+    hud.showPlayerTwo(false); // Hide p2 UI on return to menu
+}
 
-            if (player.x < p.x + p.width && player.x + player.width > p.x &&
-                player.y > p.y && player.y <= p.y + p.height && player.vy < 0) {
-                player.y = p.y + p.height;
-                player.vy = 0;
-                const hitCenterX = player.x + player.width / 2;
-                enemies.forEach(enemy => {
-                     const onThisPlatform = Math.abs((enemy.y + enemy.height) - p.y) < 10;
-                     const withinHitRange = enemy.x < hitCenterX + 20 && (enemy.x + enemy.width) > hitCenterX - 20;
-                    if (!enemy.isFlipped && onThisPlatform && withinHitRange) {
-                        enemy.flip();
-                        player.addScore(50);
-                    }
-                });
-            }
-        });
-        player.onGround = onAnyPlatform;
-        player.onFrozenPlatform = isCurrentlyOnFrozenPlatform;
-
-        // Player vs Explosive Block (hitting from below)
-        if (player.x < block.x + block.width && player.x + player.width > block.x &&
-            player.y > block.y && player.y <= block.y + block.height && player.vy < 0) {
-            player.y = block.y + block.height;
-            player.vy = 0;
-            block.hit();
-        }
+function startAttract() {
+    attract.start(levelPack, accessibility.particleDensity());
+    gameState = 'attract';
+}
 
-        // Player vs Enemies
-        enemies.forEach((enemy, index) => {
-            if (player.x < enemy.x + enemy.width && player.x + player.width > enemy.x &&
-                player.y < enemy.y + enemy.height && player.y + player.height > enemy.y) {
-                if (enemy.isFlipped) {
-                    enemies.splice(index, 1);
-                    for (let i = 0; i < 20; i++) particles.push(new Particle(enemy.x, enemy.y, enemy.sprite));
-                    player.addScore(200);
-                } else {
-                    player.die();
-                }
-            }
-        });
-    });
+function stopAttract() {
+    attract.stop();
+    idleTime = 0;
+    gameState = 'playerSelect';
+}
 
-    // Enemy vs Enemy
-    for (let i = 0; i < enemies.length; i++) {
-        for (let j = i + 1; j < enemies.length; j++) {
-            const e1 = enemies[i];
-            const e2 = enemies[j];
-            if (e1.x < e2.x + e2.width && e1.x + e1.width > e2.x &&
-                e1.y < e2.y + e2.height && e1.y + e1.height > e2.y) {
-                if (!e1.isFlipped && !e2.isFlipped && e1.onGround && e2.onGround) {
-                    // Swap velocities for a better bounce effect
-                    const tempVx = e1.vx;
-                    e1.vx = e2.vx;
-                    e2.vx = tempVx;
-
-                    // Give a slight push to prevent sticking
-                     if (e1.x < e2.x) {
-                        e1.x -= 1;
-                        e2.x += 1;
-                    } else {
-                        e1.x += 1;
-                        e2.x -= 1;
-                    }
-                }
-            }
-        }
+// Run the editor's current layout as a one-level game; clearing it or dying returns to the editor.
+function startPlaytest() {
+    try {
+        const pack = editor.toLevelPack();
+        playtesting = true;
+        editor.notice = '';
+        startGame(1, undefined, pack);
+    } catch (err) {
+        editor.notice = err instanceof Error ? err.message : String(err);
     }
 }
 
-function draw() {
-    ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+// Map a mouse event to game coordinates; the canvas may be scaled by CSS.
+function canvasPoint(e: MouseEvent) {
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: (e.clientX - rect.left) * (GAME_WIDTH / rect.width),
+        y: (e.clientY - rect.top) * (GAME_HEIGHT / rect.height),
+    };
+}
 
-    if (gameState === 'playerSelect') {
-        drawPlayerSelect();
-    } else {
-        platforms.forEach(p => p.draw());
-        explosiveBlock.draw();
-        enemies.forEach(e => e.draw());
-        players.forEach(p => p.draw());
-        
-        if (gameState === 'paused') {
-            ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-            ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-            ctx.fillStyle = 'white';
-            ctx.font = '50px "Press Start 2P"';
-            ctx.textAlign = 'center';
-            ctx.fillText('PAUSED', GAME_WIDTH / 2, GAME_HEIGHT / 2);
-        } else if (gameState === 'levelTransition') {
-            ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-            ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-            ctx.fillStyle = 'white';
-            ctx.font = '50px "Press Start 2P"';
-            ctx.textAlign = 'center';
-            ctx.fillText(`LEVEL ${level}`, GAME_WIDTH / 2, GAME_HEIGHT / 2);
-        } else if (gameState === 'gameOver') {
-            drawGameOver();
-        }
+// The menu screens a touch player leaves by the back button.
+const BACK_BUTTON_STATES: GameState[] = ['lobby', 'controls', 'settings', 'leaderboard', 'achievements'];
+
+// A tap that missed the touch buttons stands in for the keys on the title and game-over screens,
+// picks initials, and works the back button on the other menu screens.
+function handleTap(x: number, y: number) {
+    idleTime = 0;
+    if (gameState === 'attract') {
+        stopAttract();
+    } else if (gameState === 'playerSelect') {
+        const option = renderer.playerSelectOptionAt(y, menuItems().length);
+        if (option === null) return;
+        playerSelectOption = option;
+        handleKey('enter');
+    } else if (gameState === 'playing' && world?.phase === 'gameOver') {
+        handleKey('enter');
+    } else if (gameState === 'enterInitials' && initialsEntry) {
+        if (initialsEntry.tap(x, y)) submitInitials(initialsEntry);
+    } else if (BACK_BUTTON_STATES.includes(gameState) && touch.isBackButton(x, y)) {
+        handleKey('escape');
     }
-     particles.forEach(p => p.draw());
 }
 
-function drawPlayerSelect() {
-    ctx.textAlign = 'center';
-    // Shadow
-    ctx.fillStyle = '#ff4136'; // Red shadow
-    ctx.font = '80px "Press Start 2P"';
-    ctx.fillText('DRAICOR BROS', GAME_WIDTH / 2 + 5, GAME_HEIGHT / 2 - 150 + 5);
-    // Main Text
-    ctx.fillStyle = '#ffdc00'; // Yellow text
-    ctx.fillText('DRAICOR BROS', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 150);
+// Any player's pause action toggles the pause screen, but only mid-level.
+function handlePause() {
+    if (!input.consumePause() || !world || online) return; // The partner's game cannot be paused from here
+    if (gameState === 'playing' && (world.phase === 'playing' || world.phase === 'bonusStage')) gameState = 'paused';
+    else if (gameState === 'paused') gameState = 'playing';
+}
 
+// Menu and screen keys. In-game movement goes through the InputManager instead.
+// Returns true when the key was used, so the browser default can be suppressed.
+function handleKey(key: string): boolean {
+    idleTime = 0;
+    if (gameState === 'attract') {
+        // Any key only wakes the title screen, so it cannot also pick something there
+        stopAttract();
+        return true;
 
-    ctx.fillStyle = 'white';
-    ctx.font = '40px "Press Start 2P"';
-    ctx.fillText('SELECT PLAYERS', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 50);
+    } else if (gameState === 'editor') {
+        if (key === 't') startPlaytest();
+        else if (key === 'escape') gameState = 'playerSelect';
+        else return editor.handleKey(key);
 
-    ctx.font = '30px "Press Start 2P"';
-    ctx.fillStyle = playerSelectOption === 1 ? '#ffdc00' : 'white';
-    ctx.fillText('1 PLAYER', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 30);
+    } else if (gameState === 'lobby') {
+        if (lobbyMenu.handleKey(key)) gameState = 'playerSelect';
 
-    ctx.fillStyle = playerSelectOption === 2 ? '#ffdc00' : 'white';
-    ctx.fillText('2 PLAYERS', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 90);
+    } else if (gameState === 'controls') {
+        if (controlsMenu.handleKey(key)) gameState = 'playerSelect';
 
-    ctx.font = '20px "Press Start 2P"';
-    ctx.fillStyle = 'white';
-    ctx.fillText('Use Arrow Keys and Enter', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 180);
-}
+    } else if (gameState === 'settings') {
+        if (settingsMenu.handleKey(key)) gameState = 'playerSelect';
 
-function drawGameOver() {
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-    ctx.fillStyle = '#ff4136';
-    ctx.font = '60px "Press Start 2P"';
-    ctx.textAlign = 'center';
-    ctx.fillText('GAME OVER', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 50);
+    } else if (gameState === 'enterInitials' && initialsEntry) {
+        if (initialsEntry.handleKey(key)) submitInitials(initialsEntry);
 
-    ctx.fillStyle = 'white';
-    ctx.font = '20px "Press Start 2P"';
-    ctx.fillText('Press Enter to return to menu', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 50);
-}
+    } else if (gameState === 'leaderboard') {
+        if (leaderboardScreen.handleKey(key)) returnToMenu();
 
+    } else if (gameState === 'achievements') {
+        if (achievementsScreen.handleKey(key)) gameState = 'playerSelect';
 
-function checkGameOver() {
-    const allPlayersDead = players.every(p => p.isDead);
-    if(allPlayersDead) {
-        gameState = 'gameOver';
-    }
-}
+    } else if (gameState === 'playing' && world) {
+        if (playtesting && key === 'escape') {
+            returnToMenu();
+        } else if (world.phase === 'gameOver') {
+            if (key === 'r') saveReplay();
+            if (key === 'enter') nextInitialsEntry();
+        }
 
-function updateUI() {
-    highScoreEl.textContent = highScore.toString().padStart(6, '0');
-    if (players[0]) {
-        p1ScoreEl.textContent = players[0].score.toString().padStart(6, '0');
-        p1LivesEl.textContent = players[0].lives.toString();
-    }
-    if (players[1]) {
-        p2ScoreEl.textContent = players[1].score.toString().padStart(6, '0');
-        p2LivesEl.textContent = players[1].lives.toString();
-    }
-}
+    } else if (gameState === 'paused') {
+        if (key === 'r') saveReplay();
 
-function gameLoop() {
-  update();
-  draw();
-  requestAnimationFrame(gameLoop);
+    } else if (gameState === 'playerSelect') {
+        const items = menuItems();
+        if (key === 'arrowdown') playerSelectOption = Math.min(playerSelectOption + 1, items.length - 1);
+        if (key === 'arrowup') playerSelectOption = Math.max(playerSelectOption - 1, 0);
+        if (items[playerSelectOption] === 'cpu' && (key === 'arrowleft' || key === 'arrowright')) changeCpuDifficulty(key === 'arrowleft' ? -1 : 1);
+        if (key === 'enter') {
+            const item = items[Math.min(playerSelectOption, items.length - 1)];
+            if (item === 'continue') continueRun();
+            else if (item === '1p') startGame(1);
+            else if (item === '2p') startGame(2);
+            else if (item === 'cpu') startCpuGame();
+            else if (item === 'versus') startGame(2, undefined, levelPack, 'versus');
+            else if (item === 'online') gameState = 'lobby';
+            else if (item === 'editor') gameState = 'editor';
+            else if (item === 'controls') gameState = 'controls';
+            else if (item === 'settings') gameState = 'settings';
+            else if (item === 'achievements') gameState = 'achievements';
+            else if (item === 'leaderboard') {
+                leaderboardScreen.show(1);
+                gameState = 'leaderboard';
+            }
+        }
+        if (key === 'l') loadReplay();
+        if (key === 'p') loadLevelPack();
+        if (key === 'f') toggleFullscreen();
+    }
+    return false;
 }
 
 // --- EVENT LISTENERS ---
 window.addEventListener('keydown', e => {
     const key = e.key.toLowerCase();
-    keys[key] = true;
-    
-    if (gameState === 'playing') {
-        if (key === 'w' || key === ' ') players.find(p => p.id === 1)?.jump();
-        if (key === 'arrowup') players.find(p => p.id === 2)?.jump();
-        if (key === 'enter') gameState = 'paused';
-        
-    } else if (gameState === 'paused') {
-        // Debounce Enter key for pausing/unpausing
-        if (key === 'enter') setTimeout(() => {
-            if (keys['enter']) gameState = 'playing';
-        }, 100);
+    audio.unlock(); // Browsers only start audio from a user gesture
+    input.keyDown(key);
+    if (handleKey(key)) e.preventDefault();
+});
 
-    } else if (gameState === 'playerSelect') {
-        if (key === 'arrowdown') playerSelectOption = 2;
-        if (key === 'arrowup') playerSelectOption = 1;
-        if (key === 'enter') startGame(playerSelectOption);
+window.addEventListener('keyup', e => {
+  input.keyUp(e.key.toLowerCase());
+});
 
-    } else if (gameState === 'gameOver') {
-        if (key === 'enter') {
-            gameState = 'playerSelect';
-            p2Ui.classList.add('hidden'); // Hide p2 UI on return to menu
-        }
-    }
+canvas.addEventListener('mousedown', e => {
+    audio.unlock();
+    if (gameState !== 'editor') return;
+    const { x, y } = canvasPoint(e);
+    editor.pointerDown(x, y);
 });
 
-window.addEventListener('keyup', e => {
-  keys[e.key.toLowerCase()] = false;
+window.addEventListener('mousemove', e => {
+    if (gameState !== 'editor') return;
+    const { x, y } = canvasPoint(e);
+    editor.pointerMove(x, y);
+});
+
+window.addEventListener('mouseup', () => {
+    if (gameState === 'editor') editor.pointerUp();
+});
+
+// Touches drive the on-screen buttons in a game and stand in for keys elsewhere; mice keep to the handlers above.
+canvas.addEventListener('pointerdown', e => {
+    if (e.pointerType !== 'touch') return;
+    audio.unlock();
+    touch.enabled = true;
+    const { x, y } = canvasPoint(e);
+    if ((gameState === 'playing' || gameState === 'paused') && touch.pointerDown(e.pointerId, x, y)) return;
+    handleTap(x, y);
 });
 
+window.addEventListener('pointermove', e => {
+    if (e.pointerType !== 'touch') return;
+    const { x, y } = canvasPoint(e);
+    touch.pointerMove(e.pointerId, x, y);
+});
+
+const liftFinger = (e: PointerEvent) => { if (e.pointerType === 'touch') touch.pointerUp(e.pointerId); };
+window.addEventListener('pointerup', liftFinger);
+window.addEventListener('pointercancel', liftFinger);
+
+// Keep the canvas as large as the window allows, at the screen's own resolution
+const fitToWindow = () => fitCanvas(canvas, renderer.ctx);
+window.addEventListener('resize', fitToWindow);
+document.addEventListener('fullscreenchange', fitToWindow);
+
+// Closing the tab mid-level keeps the run; it resumes from this exact tick.
+window.addEventListener('pagehide', saveRun);
+
 // --- START GAME ---
-updateUI();
-gameLoop();
+// The game starts straight away with emoji and switches to the sprites once they arrive
+loadSpriteAtlas(new URL('./assets/sprites.png', import.meta.url).href, spriteAtlasData as AtlasData)
+    .then(atlas => { renderer.atlas = atlas; })
+    .catch(err => console.warn('Sprite atlas unavailable, drawing emoji instead:', err));
+fitToWindow();
+hud.update(world, highScore);
+requestAnimationFrame(gameLoop);
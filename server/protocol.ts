@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Messages between a browser and the relay server. What the two players say
+// to each other travels inside `relay` untouched; the relay never reads it.
+
+export type ClientMessage =
+    | { type: 'host' }
+    | { type: 'join'; code: string }
+    | { type: 'relay'; data: unknown };
+
+export type ServerMessage =
+    | { type: 'hosted'; code: string }
+    | { type: 'joined' }
+    | { type: 'peerJoined' }
+    | { type: 'peerLeft' }
+    | { type: 'error'; message: string }
+    | { type: 'relay'; data: unknown };
+
+export const JOIN_CODE_LENGTH = 4;
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A tiny relay for online co-op. It pairs a host with a guest by join code and
+ * forwards their messages to each other; the game itself only ever runs in the
+ * two browsers. No dependencies beyond Node, so it runs for local testing with
+ *
+ *     npx tsx server/relay.ts
+ *
+ * and listens on PORT (default 8787). Only the small part of WebSocket the game
+ * needs is spoken: unfragmented text messages, ping and close.
+ */
+
+import { createHash, randomInt } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { ClientMessage, JOIN_CODE_LENGTH, ServerMessage } from './protocol';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O to mistake for 1 and 0
+const MAX_MESSAGE = 1 << 20; // A custom level pack is the largest thing anyone sends
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+interface Room {
+    code: string;
+    host: Peer;
+    guest: Peer | null;
+}
+
+class Peer {
+    socket: Duplex;
+    room: Room | null = null;
+    private buffer = Buffer.alloc(0);
+
+    constructor(socket: Duplex) {
+        this.socket = socket;
+        socket.on('data', chunk => this.receive(chunk));
+        socket.on('close', () => leaveRoom(this));
+        socket.on('error', () => socket.destroy());
+    }
+
+    send(message: ServerMessage) {
+        this.sendFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message)));
+    }
+
+    private sendFrame(opcode: number, payload: Buffer) {
+        if (this.socket.destroyed) return;
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if (payload.length < 0x10000) {
+            header = Buffer.alloc(4);
+            header.writeUInt16BE(payload.length, 2);
+            header[1] = 126;
+        } else {
+            header = Buffer.alloc(10);
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+            header[1] = 127;
+        }
+        header[0] = 0x80 | opcode;
+        this.socket.write(Buffer.concat([header, payload]));
+    }
+
+    // Take complete frames off the front of the buffer; a partial one waits for more data.
+    private receive(chunk: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (this.buffer.length >= 2) {
+            const opcode = this.buffer[0] & 0x0f;
+            const final = (this.buffer[0] & 0x80) !== 0;
+            const masked = (this.buffer[1] & 0x80) !== 0;
+            let length = this.buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffer.length < 4) return;
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffer.length < 10) return;
+                length = Number(this.buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            // Browsers always mask what they send, and the game never sends anything this big
+            if (!masked || !final || length > MAX_MESSAGE) {
+                this.socket.destroy();
+                return;
+            }
+            if (this.buffer.length < offset + 4 + length) return;
+            const mask = this.buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+            this.buffer = this.buffer.subarray(offset + 4 + length);
+
+            if (opcode === OPCODE_TEXT) this.handleText(payload.toString());
+            else if (opcode === OPCODE_PING) this.sendFrame(OPCODE_PONG, payload);
+            else if (opcode === OPCODE_CLOSE) {
+                this.sendFrame(OPCODE_CLOSE, Buffer.alloc(0));
+                this.socket.end();
+                return;
+            }
+        }
+    }
+
+    private handleText(text: string) {
+        let message: unknown;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            message = null;
+        }
+        // Valid JSON is not enough: anything else would throw in here and take every room down with it
+        if (!isClientMessage(message)) {
+            this.send({ type: 'error', message: 'Malformed message' });
+            return;
+        }
+        handleMessage(this, message);
+    }
+}
+
+const CLIENT_MESSAGE_TYPES: ClientMessage['type'][] = ['host', 'join', 'relay'];
+
+function isClientMessage(value: unknown): value is ClientMessage {
+    const type = (value as { type?: unknown } | null)?.type;
+    return typeof value === 'object' && value !== null && CLIENT_MESSAGE_TYPES.some(t => t === type);
+}
+
+const rooms = new Map<string, Room>();
+
+function newCode() {
+    let code: string;
+    do {
+        code = Array.from({ length: JOIN_CODE_LENGTH }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+}
+
+function handleMessage(peer: Peer, message: ClientMessage) {
+    switch (message.type) {
+        case 'host': {
+            if (peer.room) return peer.send({ type: 'error', message: 'Already in a game' });
+            const room: Room = { code: newCode(), host: peer, guest: null };
+            rooms.set(room.code, room);
+            peer.room = room;
+            peer.send({ type: 'hosted', code: room.code });
+            break;
+        }
+        case 'join': {
+            const room = rooms.get(String(message.code).toUpperCase());
+            if (peer.room) return peer.send({ type: 'error', message: 'Already in a game' });
+            if (!room) return peer.send({ type: 'error', message: 'No game with that code' });
+            if (room.guest) return peer.send({ type: 'error', message: 'That game is full' });
+            room.guest = peer;
+            peer.room = room;
+            peer.send({ type: 'joined' });
+            room.host.send({ type: 'peerJoined' });
+            break;
+        }
+        case 'relay': {
+            const room = peer.room;
+            const partner = room && (room.host === peer ? room.guest : room.host);
+            partner?.send({ type: 'relay', data: message.data });
+            break;
+        }
+        default:
+            peer.send({ type: 'error', message: 'Unknown message' });
+    }
+}
+
+// A game cannot carry on with one player gone, so the room closes with them.
+function leaveRoom(peer: Peer) {
+    const room = peer.room;
+    if (!room) return;
+    rooms.delete(room.code);
+    const partner = room.host === peer ? room.guest : room.host;
+    if (partner) {
+        partner.room = null;
+        partner.send({ type: 'peerLeft' });
+    }
+    peer.room = null;
+}
+
+const server = createServer((_, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('Draicor Bros relay: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+    new Peer(socket);
+});
+
+server.listen(PORT, () => console.log(`Relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GameEvent } from '../game/events';
+
+export interface AccessibilitySettings {
+    reducedMotion: boolean; // No blinking or shaking, and smaller particle bursts
+    highContrast: boolean; // Colour-blind-safe palette, with patterns on frozen and moving platforms
+    gameSpeed: number; // One of GAME_SPEEDS
+}
+
+export const GAME_SPEEDS = [0.5, 0.75, 1];
+
+const ACCESSIBILITY_KEY = 'draicorBrosAccessibility';
+const DEFAULT_SETTINGS: AccessibilitySettings = { reducedMotion: false, highContrast: false, gameSpeed: 1 };
+const REDUCED_PARTICLE_DENSITY = 0.25;
+
+function loadSettings(): AccessibilitySettings {
+    // Start from the system preference until the player says otherwise
+    const prefersReducedMotion = typeof matchMedia === 'function' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+    try {
+        const stored = JSON.parse(localStorage.getItem(ACCESSIBILITY_KEY) || 'null');
+        return {
+            reducedMotion: typeof stored?.reducedMotion === 'boolean' ? stored.reducedMotion : prefersReducedMotion,
+            highContrast: typeof stored?.highContrast === 'boolean' ? stored.highContrast : DEFAULT_SETTINGS.highContrast,
+            gameSpeed: GAME_SPEEDS.includes(stored?.gameSpeed) ? stored.gameSpeed : DEFAULT_SETTINGS.gameSpeed,
+        };
+    } catch {
+        return { ...DEFAULT_SETTINGS, reducedMotion: prefersReducedMotion };
+    }
+}
+
+/**
+ * Display and pacing options. None of them touch the simulation: game speed
+ * only changes how fast ticks are fed to it, so replays and online games are
+ * unaffected.
+ */
+export class AccessibilityOptions {
+    settings: AccessibilitySettings = loadSettings();
+
+    save() {
+        localStorage.setItem(ACCESSIBILITY_KEY, JSON.stringify(this.settings));
+    }
+
+    // Fraction of each particle burst to emit.
+    particleDensity() {
+        return this.settings.reducedMotion ? REDUCED_PARTICLE_DENSITY : 1;
+    }
+}
+
+/**
+ * A visually hidden ARIA live region that reads key moments out to screen
+ * readers. It is created here rather than in the page so the game works with
+ * any host page.
+ */
+export class Announcer {
+    private el: HTMLElement;
+
+    constructor() {
+        this.el = document.createElement('div');
+        this.el.className = 'sr-only';
+        this.el.setAttribute('role', 'status');
+        this.el.setAttribute('aria-live', 'polite');
+        document.body.appendChild(this.el);
+    }
+
+    announce(text: string) {
+        // Clear first so the same message twice in a row is still read out
+        this.el.textContent = '';
+        requestAnimationFrame(() => { this.el.textContent = text; });
+    }
+
+    announceEvent(event: GameEvent) {
+        const text = describeEvent(event);
+        if (text) this.announce(text);
+    }
+}
+
+function describeEvent(event: GameEvent): string | null {
+    switch (event.type) {
+        case 'levelStarted': return event.boss ? `Boss level ${event.level}` : `Level ${event.level}`;
+        case 'playerDied':
+            if (event.livesLeft <= 0) return `Player ${event.playerId} is out`;
+            return `Player ${event.playerId} lost a life, ${event.livesLeft} left`;
+        case 'gameOver': return 'Game over';
+        default: return null;
+    }
+}
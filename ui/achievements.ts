@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import type { GameEvent } from '../game/events';
+import type { CanvasRenderer } from './renderer';
+
+const ACHIEVEMENTS_KEY = 'draicorBrosAchievements';
+const TOAST_TIME = 3000; // ms each unlock stays on screen
+const TOAST_FADE = 400;
+
+export type AchievementId = 'tripleFlip' | 'noBlock' | 'toughStreak' | 'bomberKick' | 'level25';
+
+interface Achievement {
+    id: AchievementId;
+    title: string;
+    description: string;
+    goal: number; // Progress needed; 1 for the all-or-nothing ones
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'tripleFlip', title: 'HAT TRICK', description: 'Flip three enemies with one bump', goal: 3 },
+    { id: 'noBlock', title: 'NO BLOCK NEEDED', description: 'Clear a level without the explosive block', goal: 1 },
+    { id: 'toughStreak', title: 'TOUGH LOVE', description: 'Kick a tough enemy that only your bumps knocked down', goal: 1 },
+    { id: 'bomberKick', title: 'DEFUSED', description: 'Kick an ice bomber before it freezes a platform', goal: 1 },
+    { id: 'level25', title: 'LONG HAUL', description: 'Reach level 25', goal: 25 },
+];
+
+interface AchievementState {
+    progress: Partial<Record<AchievementId, number>>; // Best so far, towards `goal`
+    unlocked: Partial<Record<AchievementId, string>>; // YYYY-MM-DD
+}
+
+function loadState(): AchievementState {
+    const state: AchievementState = { progress: {}, unlocked: {} };
+    try {
+        const stored = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) || 'null');
+        ACHIEVEMENTS.forEach(({ id }) => {
+            const progress = stored?.progress?.[id];
+            const unlocked = stored?.unlocked?.[id];
+            if (Number.isFinite(progress)) state.progress[id] = progress;
+            if (typeof unlocked === 'string') state.unlocked[id] = unlocked;
+        });
+    } catch {
+        // Unreadable progress starts over
+    }
+    return state;
+}
+
+/**
+ * Watches a run's events for the moments worth an achievement and keeps
+ * progress and unlocks in localStorage. Replays and editor play-tests are
+ * not fed in, so only real play counts.
+ */
+export class Achievements {
+    private state = loadState();
+    private blockUsed = false; // On the level being played
+
+    isUnlocked(id: AchievementId) {
+        return this.state.unlocked[id] !== undefined;
+    }
+
+    unlockedOn(id: AchievementId) {
+        return this.state.unlocked[id] ?? null;
+    }
+
+    progress(id: AchievementId) {
+        return this.state.progress[id] ?? 0;
+    }
+
+    // A run starts, fresh or continued, on `level`.
+    startRun(level: number) {
+        this.blockUsed = false;
+        this.record('level25', level);
+    }
+
+    // One tick's events. Returns what they unlocked, for the toasts.
+    track(events: GameEvent[]): Achievement[] {
+        const unlocked: Achievement[] = [];
+        const record = (id: AchievementId, value: number) => {
+            const achievement = this.record(id, value);
+            if (achievement) unlocked.push(achievement);
+        };
+        let bump: { playerId: number; flips: number } | null = null; // The bump whose flips follow it in the list
+        events.forEach(e => {
+            switch (e.type) {
+                case 'bump':
+                    bump = { playerId: e.playerId, flips: 0 };
+                    break;
+                case 'enemyFlipped':
+                    if (bump?.playerId === e.playerId) record('tripleFlip', ++bump.flips);
+                    break;
+                case 'blockHit':
+                    this.blockUsed = true;
+                    break;
+                case 'levelCleared':
+                    if (!this.blockUsed) record('noBlock', 1);
+                    break;
+                case 'levelStarted':
+                    this.blockUsed = false;
+                    record('level25', e.level);
+                    break;
+                case 'enemyKicked':
+                    if (e.enemy === 'tough' && e.streak) record('toughStreak', 1);
+                    if (e.enemy === 'iceBomber') record('bomberKick', 1);
+                    break;
+            }
+        });
+        return unlocked;
+    }
+
+    // Keep the best progress seen; returns the achievement if this unlocked it.
+    private record(id: AchievementId, value: number): Achievement | null {
+        const achievement = ACHIEVEMENTS.find(a => a.id === id)!;
+        if (this.isUnlocked(id) || value <= this.progress(id)) return null;
+        this.state.progress[id] = Math.min(value, achievement.goal);
+        if (value >= achievement.goal) this.state.unlocked[id] = new Date().toISOString().slice(0, 10);
+        localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(this.state));
+        return this.isUnlocked(id) ? achievement : null;
+    }
+}
+
+/**
+ * Unlock notices over the game, one at a time, each fading out after a few
+ * seconds. Timed by the wall clock so pauses and game speed do not hold them up.
+ */
+export class AchievementToasts {
+    private queue: Achievement[] = [];
+    private shownAt: number | null = null;
+
+    show(achievement: Achievement) {
+        this.queue.push(achievement);
+    }
+
+    clear() {
+        this.queue = [];
+        this.shownAt = null;
+    }
+
+    draw(renderer: CanvasRenderer, now: number) {
+        if (this.queue.length === 0) return;
+        this.shownAt ??= now;
+        const age = now - this.shownAt;
+        if (age >= TOAST_TIME) {
+            this.queue.shift();
+            this.shownAt = null;
+            return;
+        }
+        const ctx = renderer.ctx;
+        const width = 460;
+        const x = GAME_WIDTH / 2 - width / 2;
+        const y = 100;
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, (TOAST_TIME - age) / TOAST_FADE);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.fillRect(x, y, width, 60);
+        ctx.strokeStyle = '#ffdc00';
+        ctx.lineWidth = 3;
+        ctx.strokeRect(x, y, width, 60);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText('ACHIEVEMENT UNLOCKED', GAME_WIDTH / 2, y + 24);
+        ctx.fillStyle = 'white';
+        ctx.font = '16px "Press Start 2P"';
+        ctx.fillText(this.queue[0].title, GAME_WIDTH / 2, y + 48);
+        ctx.restore();
+    }
+}
+
+/**
+ * Every achievement, locked ones greyed out with how far along they are.
+ */
+export class AchievementsScreen {
+    achievements: Achievements;
+
+    constructor(achievements: Achievements) {
+        this.achievements = achievements;
+    }
+
+    // Returns true when the player asked to leave the screen.
+    handleKey(key: string): boolean {
+        return key === 'enter' || key === 'escape';
+    }
+
+    draw(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('ACHIEVEMENTS', GAME_WIDTH / 2, 90);
+
+        ACHIEVEMENTS.forEach((achievement, i) => {
+            const y = 170 + i * 100;
+            const unlocked = this.achievements.unlockedOn(achievement.id);
+            ctx.textAlign = 'left';
+            ctx.fillStyle = unlocked ? '#ffdc00' : '#555';
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText(unlocked ? '★' : '☆', 100, y);
+            ctx.fillText(achievement.title, 150, y);
+            ctx.fillStyle = unlocked ? 'white' : '#888';
+            ctx.font = '12px "Press Start 2P"';
+            ctx.fillText(achievement.description, 150, y + 30);
+
+            ctx.textAlign = 'right';
+            if (unlocked) {
+                ctx.fillText(unlocked, GAME_WIDTH - 100, y);
+            } else if (achievement.goal > 1) {
+                // Ten-segment progress bar, as on the settings screen
+                const progress = this.achievements.progress(achievement.id);
+                const filled = Math.floor(progress / achievement.goal * 10);
+                for (let s = 0; s < 10; s++) {
+                    ctx.fillStyle = s < filled ? 'white' : '#333';
+                    ctx.fillRect(GAME_WIDTH - 360 + s * 26, y - 16, 20, 16);
+                }
+                ctx.fillStyle = '#888';
+                ctx.fillText(`${progress}/${achievement.goal}`, GAME_WIDTH - 100, y + 30);
+            }
+        });
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText('ENTER: BACK', GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bot } from '../game/bot';
+import { GAME_HEIGHT, GAME_WIDTH, TICK_MS } from '../game/constants';
+import type { LevelPack } from '../game/levelPack';
+import { GameWorld } from '../game/world';
+import { InputManager, keyLabel } from './controls';
+import type { LeaderboardScreen } from './leaderboard';
+import type { CanvasRenderer } from './renderer';
+
+type AttractScreen = 'demo' | 'highScores' | 'howToPlay';
+
+const SCREEN_ORDER: AttractScreen[] = ['demo', 'highScores', 'howToPlay'];
+// How long each screen stays up, in ticks
+const SCREEN_TICKS: Record<AttractScreen, number> = {
+    demo: 30000 / TICK_MS,
+    highScores: 8000 / TICK_MS,
+    howToPlay: 10000 / TICK_MS,
+};
+const GAME_OVER_LINGER = 2000 / TICK_MS; // A demo that ends early still shows its game over for this long
+
+const HOW_TO_PLAY = [
+    'BUMP A PLATFORM FROM BELOW',
+    'TO FLIP THE ENEMY ON TOP',
+    '',
+    'KICK FLIPPED ENEMIES TO CLEAR THEM',
+    'BEFORE THEY GET BACK UP',
+    '',
+    'HIT THE BLOCK TO FLIP EVERY ENEMY',
+    'IT ONLY WORKS THREE TIMES A LEVEL',
+];
+
+/**
+ * The arcade loop the title screen falls into when left alone: a demo game
+ * played by a Bot, the high score table and a how-to-play card, round and
+ * round. The demo is a world of its own, so it plays silently and never
+ * touches scores, saves or achievements.
+ */
+export class AttractMode {
+    input: InputManager;
+    leaderboardScreen: LeaderboardScreen;
+    world: GameWorld | null = null; // Only while the demo is showing
+    private screen: AttractScreen = 'demo';
+    private ticks = 0; // On the current screen
+    private bot = new Bot(0, 'hard', 0);
+    private levelPack: LevelPack | null = null;
+    private particleDensity = 1;
+
+    constructor(input: InputManager, leaderboardScreen: LeaderboardScreen) {
+        this.input = input;
+        this.leaderboardScreen = leaderboardScreen;
+    }
+
+    // Begin the loop from the demo, played on the pack the title screen has loaded.
+    start(levelPack: LevelPack, particleDensity: number) {
+        this.levelPack = levelPack;
+        this.particleDensity = particleDensity;
+        this.show('demo');
+    }
+
+    stop() {
+        this.world = null;
+    }
+
+    tick() {
+        this.ticks++;
+        const world = this.world;
+        if (world) {
+            world.step(world.phase === 'gameOver' ? [] : [this.bot.decide(world)]);
+            if (world.phase === 'gameOver') this.ticks = Math.max(this.ticks, SCREEN_TICKS.demo - GAME_OVER_LINGER);
+        }
+        if (this.ticks >= SCREEN_TICKS[this.screen]) {
+            this.show(SCREEN_ORDER[(SCREEN_ORDER.indexOf(this.screen) + 1) % SCREEN_ORDER.length]);
+        }
+    }
+
+    // `alpha` is how far the renderer sits between the demo's last two ticks (0..1).
+    draw(renderer: CanvasRenderer, alpha: number) {
+        if (this.screen === 'highScores') {
+            this.leaderboardScreen.draw(renderer, 'PRESS ANY KEY');
+        } else if (this.screen === 'howToPlay') {
+            this.drawHowToPlay(renderer);
+        } else if (this.world) {
+            renderer.drawWorld(this.world, alpha);
+            renderer.drawParticles(this.world.particles.live, alpha);
+            if (this.world.phase === 'gameOver') renderer.drawBanner('GAME OVER');
+            const ctx = renderer.ctx;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'alphabetic';
+            ctx.fillStyle = 'white';
+            ctx.font = '16px "Press Start 2P"';
+            ctx.fillText('DEMO - PRESS ANY KEY', GAME_WIDTH / 2, 40);
+        }
+    }
+
+    private show(screen: AttractScreen) {
+        this.screen = screen;
+        this.ticks = 0;
+        this.world = null;
+        if (screen === 'highScores') this.leaderboardScreen.show(1);
+        if (screen === 'demo' && this.levelPack) {
+            const seed = Math.floor(Math.random() * 0x100000000);
+            this.world = new GameWorld(1, seed, this.levelPack);
+            this.world.particles.density = this.particleDensity;
+            this.bot = new Bot(0, 'hard', seed); // The demo shows the game at its best
+        }
+    }
+
+    private drawHowToPlay(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('HOW TO PLAY', GAME_WIDTH / 2, 90);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '16px "Press Start 2P"';
+        HOW_TO_PLAY.forEach((line, i) => ctx.fillText(line, GAME_WIDTH / 2, 170 + i * 36));
+
+        // The keys as currently bound, first of each
+        ctx.fillStyle = '#ff4136';
+        this.input.bindings.forEach((b, player) => {
+            const move = `${keyLabel(b.keys.left[0] ?? '-')}/${keyLabel(b.keys.right[0] ?? '-')}`;
+            const line = `P${player + 1}  MOVE ${move}  JUMP ${keyLabel(b.keys.jump[0] ?? '-')}`;
+            ctx.fillText(line, GAME_WIDTH / 2, 500 + player * 36);
+        });
+
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText('PRESS ANY KEY', GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
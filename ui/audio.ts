@@ -0,0 +1,267 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GameEvent, GameEventType } from '../game/events';
+
+export interface AudioSettings {
+    master: number; // Volumes are 0..1
+    sfx: number;
+    music: number;
+    muted: boolean;
+}
+
+export type SoundName = 'jump' | 'bump' | 'flip' | 'kick' | 'block' | 'bomb' | 'die' | 'extraLife' | 'levelClear' | 'powerUp' | 'shieldBreak' | 'bossHit' | 'fireball' | 'pound' | 'bossDefeated' | 'stun' | 'knockout' | 'roundOver' | 'coin' | 'recover' | 'rage';
+
+// One oscillator (or noise burst) in a sound, `at` seconds after it starts, optionally sliding to `to` Hz.
+interface Voice {
+    wave: OscillatorType | 'noise';
+    freq: number;
+    to?: number;
+    at: number;
+    length: number;
+    volume: number;
+}
+
+const AUDIO_KEY = 'draicorBrosAudio';
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+const REPEAT_GAP = 0.03; // Seconds; the same sound twice in one tick (a bump flipping a row of enemies) plays once
+const MUSIC_STEP = 0.14; // Seconds per sixteenth note
+const MUSIC_LOOKAHEAD = 0.2;
+
+function arpeggio(wave: OscillatorType, freqs: number[], step: number, volume: number): Voice[] {
+    return freqs.map((freq, i) => ({ wave, freq, at: i * step, length: step, volume }));
+}
+
+const SOUNDS: Record<SoundName, Voice[]> = {
+    jump: [{ wave: 'square', freq: 260, to: 620, at: 0, length: 0.14, volume: 0.2 }],
+    bump: [{ wave: 'square', freq: 140, to: 90, at: 0, length: 0.08, volume: 0.3 }],
+    flip: [{ wave: 'square', freq: 880, to: 220, at: 0, length: 0.18, volume: 0.2 }],
+    kick: [
+        { wave: 'square', freq: 660, at: 0, length: 0.06, volume: 0.2 },
+        { wave: 'square', freq: 990, at: 0.06, length: 0.1, volume: 0.2 },
+    ],
+    block: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.5, volume: 0.5 },
+        { wave: 'sine', freq: 120, to: 40, at: 0, length: 0.4, volume: 0.6 },
+    ],
+    bomb: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.3, volume: 0.35 },
+        { wave: 'sawtooth', freq: 400, to: 60, at: 0, length: 0.3, volume: 0.15 },
+    ],
+    die: arpeggio('triangle', [784, 587, 440, 294, 196], 0.1, 0.4),
+    extraLife: arpeggio('square', [523, 659, 784, 1047, 1319], 0.07, 0.15),
+    powerUp: arpeggio('square', [392, 523, 659, 784], 0.05, 0.15),
+    shieldBreak: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.15, volume: 0.3 },
+        { wave: 'square', freq: 1200, to: 300, at: 0, length: 0.2, volume: 0.15 },
+    ],
+    bossHit: [
+        { wave: 'sawtooth', freq: 220, to: 110, at: 0, length: 0.25, volume: 0.25 },
+        { wave: 'square', freq: 110, to: 55, at: 0.05, length: 0.25, volume: 0.2 },
+    ],
+    fireball: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.25, volume: 0.2 },
+        { wave: 'sawtooth', freq: 300, to: 900, at: 0, length: 0.2, volume: 0.1 },
+    ],
+    pound: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.6, volume: 0.6 },
+        { wave: 'sine', freq: 90, to: 30, at: 0, length: 0.6, volume: 0.8 },
+    ],
+    bossDefeated: [
+        ...arpeggio('square', [262, 330, 392, 523, 659, 784], 0.08, 0.15),
+        { wave: 'square', freq: 1047, at: 0.48, length: 0.8, volume: 0.15 },
+    ],
+    coin: [
+        { wave: 'square', freq: 988, at: 0, length: 0.06, volume: 0.15 },
+        { wave: 'square', freq: 1319, at: 0.06, length: 0.2, volume: 0.15 },
+    ],
+    recover: [{ wave: 'square', freq: 220, to: 440, at: 0, length: 0.15, volume: 0.15 }],
+    rage: [
+        { wave: 'sawtooth', freq: 180, to: 360, at: 0, length: 0.2, volume: 0.15 },
+        { wave: 'sawtooth', freq: 180, to: 360, at: 0.2, length: 0.2, volume: 0.15 },
+    ],
+    stun: [
+        { wave: 'square', freq: 600, to: 150, at: 0, length: 0.12, volume: 0.2 },
+        { wave: 'square', freq: 600, to: 150, at: 0.12, length: 0.12, volume: 0.15 },
+    ],
+    knockout: [
+        { wave: 'noise', freq: 0, at: 0, length: 0.2, volume: 0.35 },
+        ...arpeggio('square', [1047, 784, 523], 0.06, 0.15),
+    ],
+    roundOver: [
+        ...arpeggio('square', [392, 494, 587], 0.12, 0.15),
+        { wave: 'square', freq: 784, at: 0.36, length: 0.5, volume: 0.15 },
+    ],
+    levelClear: [
+        ...arpeggio('square', [523, 659, 784], 0.1, 0.15),
+        { wave: 'square', freq: 1047, at: 0.3, length: 0.4, volume: 0.15 },
+    ],
+};
+
+const EVENT_SOUNDS: Partial<Record<GameEventType, SoundName>> = {
+    jump: 'jump',
+    bump: 'bump',
+    enemyFlipped: 'flip',
+    enemyHit: 'flip',
+    enemyKicked: 'kick',
+    enemyRecovered: 'recover',
+    enemyEnraged: 'rage',
+    blockHit: 'block',
+    bomberExploded: 'bomb',
+    playerDied: 'die',
+    extraLife: 'extraLife',
+    powerUpCollected: 'powerUp',
+    shieldBroken: 'shieldBreak',
+    playerStunned: 'stun',
+    playerKnockedOut: 'knockout',
+    roundOver: 'roundOver',
+    bossHit: 'bossHit',
+    fireball: 'fireball',
+    groundPound: 'pound',
+    bossDefeated: 'bossDefeated',
+    levelCleared: 'levelClear',
+    coinCollected: 'coin',
+    bonusStageOver: 'levelClear',
+};
+
+// The title loop: MIDI note numbers per sixteenth, 0 = rest.
+const MELODY = [
+    72, 0, 76, 79, 84, 0, 79, 76, 74, 0, 77, 81, 86, 0, 81, 77,
+    76, 0, 79, 84, 88, 0, 84, 79, 77, 76, 74, 72, 71, 0, 67, 0,
+];
+const BASS = [
+    48, 0, 55, 0, 48, 0, 55, 0, 50, 0, 57, 0, 50, 0, 57, 0,
+    52, 0, 59, 0, 52, 0, 59, 0, 53, 0, 55, 0, 43, 0, 55, 0,
+];
+
+function midiToFreq(note: number) {
+    return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function loadSettings(): AudioSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(AUDIO_KEY) || 'null');
+        const volume = (v: unknown, fallback: number) => typeof v === 'number' && v >= 0 && v <= 1 ? v : fallback;
+        return {
+            master: volume(stored?.master, DEFAULT_SETTINGS.master),
+            sfx: volume(stored?.sfx, DEFAULT_SETTINGS.sfx),
+            music: volume(stored?.music, DEFAULT_SETTINGS.music),
+            muted: typeof stored?.muted === 'boolean' ? stored.muted : DEFAULT_SETTINGS.muted,
+        };
+    } catch {
+        return { ...DEFAULT_SETTINGS };
+    }
+}
+
+/**
+ * Synthesized sound effects and music; there are no audio files. Browsers only
+ * allow audio after a user gesture, so nothing is created until `unlock()` is
+ * called from one. Until then, and where Web Audio is missing, every call is a
+ * silent no-op.
+ */
+export class AudioSystem {
+    settings: AudioSettings = loadSettings();
+    private ctx: AudioContext | null = null;
+    private masterGain: GainNode | null = null;
+    private sfxGain: GainNode | null = null;
+    private musicGain: GainNode | null = null;
+    private noise: AudioBuffer | null = null;
+    private lastPlayed = new Map<SoundName, number>();
+    private musicPlaying = false;
+    private musicStep = 0;
+    private nextNoteTime = 0;
+
+    unlock() {
+        if (this.ctx) {
+            if (this.ctx.state === 'suspended') this.ctx.resume();
+            return;
+        }
+        if (typeof AudioContext === 'undefined') return;
+        const ctx = new AudioContext();
+        this.ctx = ctx;
+        this.masterGain = ctx.createGain();
+        this.masterGain.connect(ctx.destination);
+        this.sfxGain = ctx.createGain();
+        this.sfxGain.connect(this.masterGain);
+        this.musicGain = ctx.createGain();
+        this.musicGain.connect(this.masterGain);
+
+        // One second of white noise, reused by every explosion
+        this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+        const samples = this.noise.getChannelData(0);
+        for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+        this.applySettings();
+    }
+
+    // Push the current settings to the mixer and remember them.
+    applySettings() {
+        localStorage.setItem(AUDIO_KEY, JSON.stringify(this.settings));
+        if (!this.masterGain || !this.sfxGain || !this.musicGain) return;
+        this.masterGain.gain.value = this.settings.muted ? 0 : this.settings.master;
+        this.sfxGain.gain.value = this.settings.sfx;
+        this.musicGain.gain.value = this.settings.music;
+    }
+
+    play(name: SoundName) {
+        if (!this.ctx || !this.sfxGain) return;
+        const now = this.ctx.currentTime;
+        if (now - (this.lastPlayed.get(name) ?? -Infinity) < REPEAT_GAP) return;
+        this.lastPlayed.set(name, now);
+        SOUNDS[name].forEach(voice => this.playVoice(voice, now, this.sfxGain!));
+    }
+
+    playEvent(event: GameEvent) {
+        const name = EVENT_SOUNDS[event.type];
+        if (name) this.play(name);
+    }
+
+    // The music keeps its place in the loop while stopped, so a pause picks up where it left off.
+    setMusicPlaying(playing: boolean) {
+        if (playing && !this.musicPlaying && this.ctx) this.nextNoteTime = this.ctx.currentTime + 0.05;
+        this.musicPlaying = playing;
+    }
+
+    // Call once per animation frame: schedules the next few music notes ahead of time.
+    update() {
+        if (!this.ctx || !this.musicGain || !this.musicPlaying) return;
+        // After a long stall (background tab) skip ahead instead of playing a burst of old notes
+        if (this.nextNoteTime < this.ctx.currentTime) this.nextNoteTime = this.ctx.currentTime + 0.05;
+        while (this.nextNoteTime < this.ctx.currentTime + MUSIC_LOOKAHEAD) {
+            const melody = MELODY[this.musicStep];
+            const bass = BASS[this.musicStep];
+            if (melody) this.playVoice({ wave: 'square', freq: midiToFreq(melody), at: 0, length: MUSIC_STEP * 0.9, volume: 0.06 }, this.nextNoteTime, this.musicGain);
+            if (bass) this.playVoice({ wave: 'triangle', freq: midiToFreq(bass), at: 0, length: MUSIC_STEP * 1.8, volume: 0.2 }, this.nextNoteTime, this.musicGain);
+            this.musicStep = (this.musicStep + 1) % MELODY.length;
+            this.nextNoteTime += MUSIC_STEP;
+        }
+    }
+
+    private playVoice(voice: Voice, start: number, output: GainNode) {
+        const ctx = this.ctx!;
+        const t = start + voice.at;
+        const envelope = ctx.createGain();
+        envelope.gain.setValueAtTime(voice.volume, t);
+        envelope.gain.exponentialRampToValueAtTime(0.001, t + voice.length);
+        envelope.connect(output);
+
+        let source: AudioScheduledSourceNode;
+        if (voice.wave === 'noise') {
+            const noise = ctx.createBufferSource();
+            noise.buffer = this.noise;
+            source = noise;
+        } else {
+            const osc = ctx.createOscillator();
+            osc.type = voice.wave;
+            osc.frequency.setValueAtTime(voice.freq, t);
+            if (voice.to) osc.frequency.exponentialRampToValueAtTime(voice.to, t + voice.length);
+            source = osc;
+        }
+        source.connect(envelope);
+        source.start(t);
+        source.stop(t + voice.length);
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { InputFrame } from '../game/input';
+
+export const ACTIONS = ['left', 'right', 'jump', 'pause'] as const;
+export type Action = typeof ACTIONS[number];
+
+export type PadBinding =
+    | { type: 'button'; index: number }
+    | { type: 'axis'; index: number; direction: 1 | -1 };
+
+export interface PlayerBindings {
+    keys: Record<Action, string[]>;
+    gamepad: number | null; // navigator.getGamepads() slot, or null for keyboard only
+    pad: Record<Action, PadBinding[]>;
+}
+
+const CONTROLS_KEY = 'draicorBrosControls';
+const AXIS_THRESHOLD = 0.5;
+export const MAX_GAMEPADS = 4;
+
+// Standard-mapping buttons that always drive the menus, whatever the in-game bindings are.
+const MENU_BUTTONS: { [button: number]: string } = { 0: 'enter', 1: 'escape', 9: 'enter', 12: 'arrowup', 13: 'arrowdown', 14: 'arrowleft', 15: 'arrowright' };
+
+const DEFAULT_PAD: Record<Action, PadBinding[]> = {
+    left: [{ type: 'axis', index: 0, direction: -1 }, { type: 'button', index: 14 }],
+    right: [{ type: 'axis', index: 0, direction: 1 }, { type: 'button', index: 15 }],
+    jump: [{ type: 'button', index: 0 }, { type: 'button', index: 12 }],
+    pause: [{ type: 'button', index: 9 }],
+};
+
+export function defaultBindings(): PlayerBindings[] {
+    return [
+        { keys: { left: ['a'], right: ['d'], jump: ['w', ' '], pause: ['enter'] }, gamepad: 0, pad: structuredClone(DEFAULT_PAD) },
+        { keys: { left: ['arrowleft'], right: ['arrowright'], jump: ['arrowup'], pause: ['enter'] }, gamepad: 1, pad: structuredClone(DEFAULT_PAD) },
+    ];
+}
+
+function isPadBinding(value: unknown): value is PadBinding {
+    const b = value as PadBinding;
+    return typeof b === 'object' && b !== null && Number.isInteger(b.index) &&
+        (b.type === 'button' || (b.type === 'axis' && (b.direction === 1 || b.direction === -1)));
+}
+
+// Stored bindings come from an older build or a hand-edited localStorage, so anything odd means defaults.
+function loadBindings(): PlayerBindings[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CONTROLS_KEY) || 'null');
+        if (!Array.isArray(stored) || stored.length !== 2) return defaultBindings();
+        const valid = stored.every((p: PlayerBindings) => ACTIONS.every(a =>
+            Array.isArray(p.keys?.[a]) && p.keys[a].every(k => typeof k === 'string') &&
+            Array.isArray(p.pad?.[a]) && p.pad[a].every(isPadBinding)) &&
+            (p.gamepad === null || (Number.isInteger(p.gamepad) && p.gamepad >= 0 && p.gamepad < MAX_GAMEPADS)));
+        return valid ? stored : defaultBindings();
+    } catch {
+        return defaultBindings();
+    }
+}
+
+function padBindingHeld(pad: Gamepad, binding: PadBinding) {
+    if (binding.type === 'button') return pad.buttons[binding.index]?.pressed ?? false;
+    return (pad.axes[binding.index] ?? 0) * binding.direction > AXIS_THRESHOLD;
+}
+
+// Every button and axis direction that is currently active on a pad, as bindings.
+function activePadBindings(pad: Gamepad): PadBinding[] {
+    const active: PadBinding[] = [];
+    pad.buttons.forEach((b, index) => { if (b.pressed) active.push({ type: 'button', index }); });
+    pad.axes.forEach((value, index) => {
+        if (Math.abs(value) > AXIS_THRESHOLD) active.push({ type: 'axis', index, direction: value > 0 ? 1 : -1 });
+    });
+    return active;
+}
+
+function bindingId(b: PadBinding) {
+    return b.type === 'button' ? `b${b.index}` : `a${b.index}${b.direction > 0 ? '+' : '-'}`;
+}
+
+function readGamepads(): (Gamepad | null)[] {
+    return typeof navigator.getGamepads === 'function' ? Array.from(navigator.getGamepads()) : [];
+}
+
+/**
+ * Merges the keyboard, the Gamepad API and on-screen touch buttons into
+ * per-player action states. Key and touch events are fed in as they arrive; gamepads are sampled by `poll()` once
+ * per animation frame. Presses are latched until consumed so a tap between
+ * two ticks is never lost.
+ */
+export class InputManager {
+    bindings: PlayerBindings[] = loadBindings();
+    private heldKeys = new Set<string>();
+    private padHeld: Record<Action, boolean>[] = [];
+    private touchHeld: Record<Action, boolean>[] = [];
+    private pressed: Set<Action>[] = [new Set(), new Set()];
+    private previousPadState = new Map<number, Set<string>>();
+    private padCapture: ((binding: PadBinding, pad: number) => void) | null = null;
+
+    keyDown(key: string) {
+        this.heldKeys.add(key);
+        // Auto-repeat counts as a fresh press, so holding jump keeps hopping as it always has
+        this.bindings.forEach((b, player) => {
+            ACTIONS.forEach(action => { if (b.keys[action].includes(key)) this.pressed[player].add(action); });
+        });
+    }
+
+    keyUp(key: string) {
+        this.heldKeys.delete(key);
+    }
+
+    /**
+     * Samples every connected gamepad. Returns menu keys ('enter', 'arrowup'...)
+     * for standard buttons that went down since the last poll, so pads can
+     * drive the title screens too.
+     */
+    poll(): string[] {
+        const pads = readGamepads();
+        const menuKeys: string[] = [];
+
+        pads.forEach((pad, slot) => {
+            if (!pad) return;
+            const active = activePadBindings(pad);
+            const previous = this.previousPadState.get(slot) ?? new Set<string>();
+            const fresh = active.filter(b => !previous.has(bindingId(b)));
+            this.previousPadState.set(slot, new Set(active.map(bindingId)));
+
+            if (this.padCapture && fresh.length > 0) {
+                this.padCapture(fresh[0], slot);
+                this.padCapture = null;
+                return;
+            }
+            if (pad.mapping === 'standard') {
+                fresh.forEach(b => { if (b.type === 'button' && MENU_BUTTONS[b.index]) menuKeys.push(MENU_BUTTONS[b.index]); });
+            }
+        });
+
+        this.bindings.forEach((b, player) => {
+            const pad = b.gamepad === null ? null : pads[b.gamepad];
+            const held = Object.fromEntries(ACTIONS.map(a => [a, !!pad && b.pad[a].some(binding => padBindingHeld(pad, binding))])) as Record<Action, boolean>;
+            ACTIONS.forEach(a => { if (held[a] && !this.padHeld[player]?.[a]) this.pressed[player].add(a); });
+            this.padHeld[player] = held;
+        });
+
+        return menuKeys;
+    }
+
+    // What a player's touch buttons are holding now; a button going down counts as a press, as on a pad.
+    setTouchHeld(player: number, held: Record<Action, boolean>) {
+        ACTIONS.forEach(a => { if (held[a] && !this.touchHeld[player]?.[a]) this.pressed[player].add(a); });
+        this.touchHeld[player] = held;
+    }
+
+    // The next button or stick push on any pad goes to `callback` instead of the game.
+    capturePadInput(callback: ((binding: PadBinding, pad: number) => void) | null) {
+        this.padCapture = callback;
+    }
+
+    isHeld(player: number, action: Action) {
+        return this.bindings[player].keys[action].some(k => this.heldKeys.has(k)) || !!this.padHeld[player]?.[action] || !!this.touchHeld[player]?.[action];
+    }
+
+    consumePressed(player: number, action: Action) {
+        return this.pressed[player].delete(action);
+    }
+
+    // True if any player pressed pause; clears it for everyone since pause is shared.
+    consumePause() {
+        const paused = this.pressed.some(p => p.has('pause'));
+        this.pressed.forEach(p => p.delete('pause'));
+        return paused;
+    }
+
+    clearPresses() {
+        this.pressed.forEach(p => p.clear());
+    }
+
+    // One tick of input for the simulation.
+    frame(numPlayers: number): InputFrame {
+        return this.bindings.slice(0, numPlayers).map((_, player) => ({
+            left: this.isHeld(player, 'left'),
+            right: this.isHeld(player, 'right'),
+            jump: this.consumePressed(player, 'jump'),
+        }));
+    }
+
+    save() {
+        localStorage.setItem(CONTROLS_KEY, JSON.stringify(this.bindings));
+    }
+
+    resetToDefaults() {
+        this.bindings = defaultBindings();
+        this.save();
+    }
+
+    isGamepadConnected(slot: number) {
+        return !!readGamepads()[slot];
+    }
+}
+
+// --- LABELS ---
+const PAD_BUTTON_NAMES: { [button: number]: string } = {
+    0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT', 8: 'SELECT', 9: 'START',
+    12: 'D-UP', 13: 'D-DOWN', 14: 'D-LEFT', 15: 'D-RIGHT',
+};
+
+export function keyLabel(key: string) {
+    if (key === ' ') return 'SPACE';
+    return key.replace(/^arrow/, '').toUpperCase();
+}
+
+export function padBindingLabel(binding: PadBinding) {
+    if (binding.type === 'button') return PAD_BUTTON_NAMES[binding.index] ?? `BTN${binding.index}`;
+    const stick = binding.index < 2 ? 'LS' : 'RS';
+    const horizontal = binding.index % 2 === 0;
+    const dir = horizontal ? (binding.direction > 0 ? 'RIGHT' : 'LEFT') : (binding.direction > 0 ? 'DOWN' : 'UP');
+    return `${stick}-${dir}`;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import { ACTIONS, Action, InputManager, keyLabel, MAX_GAMEPADS, padBindingLabel } from './controls';
+import type { CanvasRenderer } from './renderer';
+
+// Per player column: one row per action, then the gamepad slot.
+const ROWS: (Action | 'gamepad')[] = [...ACTIONS, 'gamepad'];
+
+/**
+ * Controls remapping screen. Enter on an action row listens for the next key
+ * or gamepad input and makes it that action's only binding on that device.
+ */
+export class ControlsMenu {
+    input: InputManager;
+    player = 0;
+    row = 0;
+    listening = false;
+
+    constructor(input: InputManager) {
+        this.input = input;
+    }
+
+    // Returns true when the player asked to leave the screen.
+    handleKey(key: string): boolean {
+        if (this.listening) {
+            this.stopListening();
+            if (key !== 'escape') this.bindKey(key);
+            return false;
+        }
+
+        if (key === 'escape') return true;
+        if (key === 'arrowup') this.row = (this.row + ROWS.length - 1) % ROWS.length;
+        if (key === 'arrowdown') this.row = (this.row + 1) % ROWS.length;
+        if (key === 'arrowleft' || key === 'arrowright') this.player = 1 - this.player;
+        if (key === 'delete' || key === 'backspace') this.input.resetToDefaults();
+        if (key === 'enter') {
+            const row = ROWS[this.row];
+            if (row === 'gamepad') this.cycleGamepad();
+            else this.startListening();
+        }
+        return false;
+    }
+
+    private startListening() {
+        this.listening = true;
+        this.input.capturePadInput((binding) => {
+            this.listening = false;
+            this.input.bindings[this.player].pad[ROWS[this.row] as Action] = [binding];
+            this.input.save();
+        });
+    }
+
+    private stopListening() {
+        this.listening = false;
+        this.input.capturePadInput(null);
+    }
+
+    private bindKey(key: string) {
+        this.input.bindings[this.player].keys[ROWS[this.row] as Action] = [key];
+        this.input.save();
+    }
+
+    // Step through pad slots 1-4 and "none" (keyboard only).
+    private cycleGamepad() {
+        const bindings = this.input.bindings[this.player];
+        const next = bindings.gamepad === null ? 0 : bindings.gamepad + 1;
+        bindings.gamepad = next >= MAX_GAMEPADS ? null : next;
+        this.input.save();
+    }
+
+    draw(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('CONTROLS', GAME_WIDTH / 2, 90);
+
+        this.input.bindings.forEach((bindings, player) => {
+            const columnX = GAME_WIDTH / 4 + player * (GAME_WIDTH / 2);
+            ctx.textAlign = 'center';
+            ctx.fillStyle = 'white';
+            ctx.font = '24px "Press Start 2P"';
+            ctx.fillText(`PLAYER ${player + 1}`, columnX, 170);
+
+            ROWS.forEach((row, i) => {
+                const y = 230 + i * 70;
+                const selected = player === this.player && i === this.row;
+                ctx.fillStyle = selected ? '#ffdc00' : 'white';
+                ctx.font = '16px "Press Start 2P"';
+
+                if (row === 'gamepad') {
+                    const slot = bindings.gamepad;
+                    const status = slot === null ? 'NONE' : `PAD ${slot + 1}${this.input.isGamepadConnected(slot) ? '' : ' (OFF)'}`;
+                    ctx.fillText(`GAMEPAD: ${status}`, columnX, y);
+                    return;
+                }
+
+                const waiting = selected && this.listening;
+                ctx.fillText(row.toUpperCase(), columnX, y);
+                ctx.font = '12px "Press Start 2P"';
+                ctx.fillStyle = waiting ? '#ff4136' : selected ? '#ffdc00' : '#aaa';
+                const keysText = bindings.keys[row].map(keyLabel).join(' / ') || '-';
+                const padText = bindings.pad[row].map(padBindingLabel).join(' / ') || '-';
+                ctx.fillText(waiting ? 'PRESS A KEY OR BUTTON...' : `${keysText}   PAD: ${padText}`, columnX, y + 24);
+            });
+        });
+
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText('ENTER: REBIND  ARROWS: SELECT  DEL: DEFAULTS  ESC: BACK', GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
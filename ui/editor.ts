@@ -0,0 +1,397 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import { ENEMY_TYPES, EnemyType, LayoutData, LEVEL_PACK_VERSION, LevelPack, parseLevelPack, PlatformData, resolveLevel } from '../game/levelPack';
+import { classicLevelPack } from '../game/levels';
+import { ExplosiveBlock, Platform } from '../game/platforms';
+import { BOTTOM_PIPES, topPipe } from '../game/waves';
+import { downloadJson, pickJsonFile } from './files';
+import type { CanvasRenderer } from './renderer';
+
+const GRID_SIZES = [0, 10, 20, 40];
+const MIN_PLATFORM_WIDTH = 20;
+const RESIZE_HANDLE = 10; // px from a platform's right edge that grab its width instead of moving it
+const FLOOR_TOP = GAME_HEIGHT - 40;
+const SPAWN_SIZE = 36;
+const BLOCK_SIZE = 50;
+const MAX_SPAWN_POINTS = 4;
+const CUSTOM_LAYOUT_ID = 'custom';
+
+// Everything the editor can change. Kept as plain data so undo is a JSON snapshot.
+interface EditorState {
+    layout: LayoutData;
+    enemyCount: number;
+    weights: Record<EnemyType, number>;
+}
+
+type Selection =
+    | { kind: 'platform'; index: number }
+    | { kind: 'block' }
+    | { kind: 'spawn'; index: number };
+
+interface Drag {
+    mode: 'move' | 'resize';
+    offsetX: number;
+    offsetY: number;
+    anchorX: number;
+    snapshot: string;
+}
+
+function clamp(value: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, value));
+}
+
+// Horizontal extent a platform covers over its whole sweep.
+function platformSpan(p: PlatformData) {
+    if (!p.mobile) return { minX: p.x, maxX: p.x + p.width };
+    return p.mobile.speed < 0
+        ? { minX: p.x - p.mobile.range, maxX: p.x + p.width }
+        : { minX: p.x, maxX: p.x + p.width + p.mobile.range };
+}
+
+/**
+ * Mouse-and-keyboard editor for a single layout plus its enemy setup. The
+ * result is exported as a one-layout level pack, so anything built here loads
+ * through the same validated path as hand-written packs.
+ */
+export class LevelEditor {
+    state: EditorState;
+    selection: Selection | null = null;
+    selectedEnemy = 0;
+    gridIndex = 2;
+    notice = '';
+    private drag: Drag | null = null;
+    private undoStack: string[] = [];
+    private redoStack: string[] = [];
+
+    constructor(pack: LevelPack = classicLevelPack) {
+        this.state = this.stateFromPack(pack);
+    }
+
+    get gridSize() {
+        return GRID_SIZES[this.gridIndex];
+    }
+
+    // --- STATE ---
+    private stateFromPack(pack: LevelPack): EditorState {
+        const level = resolveLevel(pack, 1);
+        const weights = Object.fromEntries(ENEMY_TYPES.map(t => [t, 0])) as Record<EnemyType, number>;
+        level.roster.forEach(e => { weights[e.type] += e.weight; });
+        return {
+            layout: JSON.parse(JSON.stringify({ ...level.layout, id: CUSTOM_LAYOUT_ID })),
+            enemyCount: level.enemyCount,
+            weights,
+        };
+    }
+
+    toLevelPack(): LevelPack {
+        const enemies = ENEMY_TYPES.filter(t => this.state.weights[t] > 0).map(type => ({ type, weight: this.state.weights[type] }));
+        return parseLevelPack({
+            version: LEVEL_PACK_VERSION,
+            name: 'Custom Level',
+            layouts: [this.state.layout],
+            layoutCycle: { levelsPerLayout: 1, order: [CUSTOM_LAYOUT_ID] },
+            enemyCount: { base: this.state.enemyCount, perLevel: 0, maxLevel: 1 },
+            rosters: [{ fromLevel: 1, enemies: enemies.length > 0 ? enemies : [{ type: 'basic', weight: 1 }] }],
+        });
+    }
+
+    private checkpoint() {
+        this.undoStack.push(JSON.stringify(this.state));
+        this.redoStack = [];
+    }
+
+    undo() {
+        const snapshot = this.undoStack.pop();
+        if (!snapshot) return;
+        this.redoStack.push(JSON.stringify(this.state));
+        this.state = JSON.parse(snapshot);
+        this.selection = null;
+    }
+
+    redo() {
+        const snapshot = this.redoStack.pop();
+        if (!snapshot) return;
+        this.undoStack.push(JSON.stringify(this.state));
+        this.state = JSON.parse(snapshot);
+        this.selection = null;
+    }
+
+    private snap(value: number) {
+        return this.gridSize ? Math.round(value / this.gridSize) * this.gridSize : Math.round(value);
+    }
+
+    // Keep a platform, including its mobile sweep, on screen and above the floor.
+    private clampPlatform(p: PlatformData) {
+        p.width = clamp(p.width, MIN_PLATFORM_WIDTH, GAME_WIDTH);
+        if (p.mobile) p.mobile.range = clamp(p.mobile.range, 1, GAME_WIDTH - p.width);
+        const { minX, maxX } = platformSpan(p);
+        if (minX < 0) p.x -= minX;
+        if (maxX > GAME_WIDTH) p.x -= maxX - GAME_WIDTH;
+        p.y = clamp(p.y, 0, FLOOR_TOP - (p.height ?? 20));
+    }
+
+    private selectedPlatform() {
+        return this.selection?.kind === 'platform' ? this.state.layout.platforms[this.selection.index] : null;
+    }
+
+    // --- POINTER ---
+    private hitTest(x: number, y: number): Selection | null {
+        const { layout } = this.state;
+        const spawn = layout.spawnPoints.findIndex(s => x >= s.x && x <= s.x + SPAWN_SIZE && y >= s.y && y <= s.y + SPAWN_SIZE);
+        if (spawn > -1) return { kind: 'spawn', index: spawn };
+        const b = layout.explosiveBlock;
+        if (x >= b.x && x <= b.x + BLOCK_SIZE && y >= b.y && y <= b.y + BLOCK_SIZE) return { kind: 'block' };
+        for (let i = layout.platforms.length - 1; i >= 0; i--) {
+            const p = layout.platforms[i];
+            if (x >= p.x && x <= p.x + p.width && y >= p.y && y <= p.y + (p.height ?? 20)) return { kind: 'platform', index: i };
+        }
+        return null;
+    }
+
+    pointerDown(x: number, y: number) {
+        const snapshot = JSON.stringify(this.state);
+        const hit = this.hitTest(x, y);
+        this.selection = hit;
+
+        if (!hit) {
+            // Empty space: start a new platform and size it by dragging
+            if (y >= FLOOR_TOP) return;
+            const platform: PlatformData = { x: this.snap(x), y: this.snap(y), width: MIN_PLATFORM_WIDTH };
+            this.clampPlatform(platform);
+            this.state.layout.platforms.push(platform);
+            this.selection = { kind: 'platform', index: this.state.layout.platforms.length - 1 };
+            this.drag = { mode: 'resize', offsetX: 0, offsetY: 0, anchorX: platform.x, snapshot };
+            return;
+        }
+
+        const target = this.positionOf(hit);
+        const platform = this.selectedPlatform();
+        const onHandle = platform !== null && x >= platform.x + platform.width - RESIZE_HANDLE;
+        this.drag = {
+            mode: onHandle ? 'resize' : 'move',
+            offsetX: x - target.x,
+            offsetY: y - target.y,
+            anchorX: target.x,
+            snapshot,
+        };
+    }
+
+    pointerMove(x: number, y: number) {
+        if (!this.drag || !this.selection) return;
+        const { layout } = this.state;
+
+        if (this.selection.kind === 'platform') {
+            const p = layout.platforms[this.selection.index];
+            if (this.drag.mode === 'resize') {
+                const edge = this.snap(x);
+                p.x = Math.min(this.drag.anchorX, edge);
+                p.width = Math.max(MIN_PLATFORM_WIDTH, Math.abs(edge - this.drag.anchorX));
+            } else {
+                p.x = this.snap(x - this.drag.offsetX);
+                p.y = this.snap(y - this.drag.offsetY);
+            }
+            this.clampPlatform(p);
+            return;
+        }
+
+        const point = this.selection.kind === 'block' ? layout.explosiveBlock : layout.spawnPoints[this.selection.index];
+        const size = this.selection.kind === 'block' ? BLOCK_SIZE : SPAWN_SIZE;
+        point.x = clamp(this.snap(x - this.drag.offsetX), 0, GAME_WIDTH - size);
+        point.y = clamp(this.snap(y - this.drag.offsetY), 0, FLOOR_TOP - size);
+    }
+
+    pointerUp() {
+        if (!this.drag) return;
+        // Only drags that changed something become an undo step
+        if (this.drag.snapshot !== JSON.stringify(this.state)) {
+            this.undoStack.push(this.drag.snapshot);
+            this.redoStack = [];
+        }
+        this.drag = null;
+    }
+
+    private positionOf(selection: Selection) {
+        const { layout } = this.state;
+        if (selection.kind === 'platform') return layout.platforms[selection.index];
+        if (selection.kind === 'block') return layout.explosiveBlock;
+        return layout.spawnPoints[selection.index];
+    }
+
+    // --- KEYBOARD ---
+    // Returns false for keys the editor does not use so the caller can handle them.
+    handleKey(key: string): boolean {
+        const platform = this.selectedPlatform();
+        const { state } = this;
+
+        if (key === 'z') this.undo();
+        else if (key === 'y') this.redo();
+        else if (key === 'g') this.gridIndex = (this.gridIndex + 1) % GRID_SIZES.length;
+        else if (key === 'delete' || key === 'backspace') this.deleteSelection();
+        else if (key === 'n') {
+            if (state.layout.spawnPoints.length >= MAX_SPAWN_POINTS) return true;
+            this.checkpoint();
+            state.layout.spawnPoints.push({ x: GAME_WIDTH / 2 - SPAWN_SIZE / 2, y: 60 });
+            this.selection = { kind: 'spawn', index: state.layout.spawnPoints.length - 1 };
+        } else if (key === 'm' && platform) {
+            this.checkpoint();
+            if (platform.mobile) delete platform.mobile;
+            else platform.mobile = { speed: platform.x + platform.width + 100 <= GAME_WIDTH ? 1 : -1, range: 100 };
+            this.clampPlatform(platform);
+        } else if (key === 'r' && platform?.mobile) {
+            this.checkpoint();
+            platform.x += platform.mobile.speed > 0 ? platform.mobile.range : -platform.mobile.range;
+            platform.mobile.speed *= -1;
+            this.clampPlatform(platform);
+        } else if ((key === '[' || key === ']') && platform?.mobile) {
+            this.checkpoint();
+            platform.mobile.range += (key === ']' ? 1 : -1) * (this.gridSize || 10);
+            this.clampPlatform(platform);
+        } else if ((key === ',' || key === '.') && platform?.mobile) {
+            this.checkpoint();
+            const sign = Math.sign(platform.mobile.speed);
+            const magnitude = clamp(Math.abs(platform.mobile.speed) + (key === '.' ? 0.1 : -0.1), 0.1, 5);
+            platform.mobile.speed = sign * Math.round(magnitude * 10) / 10;
+        } else if (key >= '1' && key <= String(ENEMY_TYPES.length)) {
+            this.selectedEnemy = Number(key) - 1;
+        } else if (key === 'arrowleft' || key === 'arrowright') {
+            this.checkpoint();
+            const type = ENEMY_TYPES[this.selectedEnemy];
+            state.weights[type] = Math.max(0, state.weights[type] + (key === 'arrowright' ? 1 : -1));
+        } else if (key === 'arrowup' || key === 'arrowdown') {
+            this.checkpoint();
+            state.enemyCount = clamp(state.enemyCount + (key === 'arrowup' ? 1 : -1), 1, 40);
+        } else if (key === 'e') this.exportLevel();
+        else if (key === 'i') this.importLevel();
+        else return false;
+        return true;
+    }
+
+    private deleteSelection() {
+        const { layout } = this.state;
+        if (this.selection?.kind === 'platform') {
+            this.checkpoint();
+            layout.platforms.splice(this.selection.index, 1);
+            this.selection = null;
+        } else if (this.selection?.kind === 'spawn' && layout.spawnPoints.length > 1) {
+            this.checkpoint();
+            layout.spawnPoints.splice(this.selection.index, 1);
+            this.selection = null;
+        }
+    }
+
+    exportLevel() {
+        try {
+            downloadJson('draicor-bros-level.json', this.toLevelPack());
+            this.notice = 'Exported level pack';
+        } catch (err) {
+            this.notice = err instanceof Error ? err.message : String(err);
+        }
+    }
+
+    importLevel() {
+        pickJsonFile(data => {
+            const state = this.stateFromPack(parseLevelPack(data));
+            this.checkpoint();
+            this.state = state;
+            this.selection = null;
+            this.notice = 'Imported level';
+        }, err => {
+            this.notice = err instanceof Error ? err.message : String(err);
+        });
+    }
+
+    // --- DRAWING ---
+    draw(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        const { layout } = this.state;
+
+        if (this.gridSize) {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            for (let x = 0; x <= GAME_WIDTH; x += this.gridSize) { ctx.moveTo(x + 0.5, 0); ctx.lineTo(x + 0.5, GAME_HEIGHT); }
+            for (let y = 0; y <= GAME_HEIGHT; y += this.gridSize) { ctx.moveTo(0, y + 0.5); ctx.lineTo(GAME_WIDTH, y + 0.5); }
+            ctx.stroke();
+        }
+
+        renderer.drawPlatform(new Platform(0, FLOOR_TOP, GAME_WIDTH, 40, true), 1);
+        layout.platforms.forEach(data => {
+            if (data.mobile) {
+                // Show the full sweep and which way the platform sets off
+                const { minX, maxX } = platformSpan(data);
+                const height = data.height ?? 20;
+                ctx.fillStyle = 'rgba(127, 219, 255, 0.2)';
+                ctx.fillRect(minX, data.y, maxX - minX, height);
+                ctx.fillStyle = '#fff';
+                ctx.font = '12px "Press Start 2P"';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(data.mobile.speed > 0 ? '>>' : '<<', data.x + data.width / 2, data.y - 10);
+            }
+            renderer.drawPlatform(new Platform(data.x, data.y, data.width, data.height), 1);
+        });
+        renderer.drawExplosiveBlock(new ExplosiveBlock(layout.explosiveBlock.x, layout.explosiveBlock.y));
+
+        BOTTOM_PIPES.forEach(p => renderer.drawPipe(p));
+        layout.spawnPoints.forEach((s, i) => {
+            renderer.drawPipe(topPipe(s));
+            ctx.strokeStyle = '#2ecc40';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(s.x, s.y, SPAWN_SIZE, SPAWN_SIZE);
+            ctx.fillStyle = '#2ecc40';
+            ctx.font = '12px "Press Start 2P"';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(`S${i + 1}`, s.x + SPAWN_SIZE / 2, s.y + SPAWN_SIZE / 2);
+        });
+
+        if (this.selection) {
+            const pos = this.positionOf(this.selection);
+            const w = this.selection.kind === 'platform' ? layout.platforms[this.selection.index].width : this.selection.kind === 'block' ? BLOCK_SIZE : SPAWN_SIZE;
+            const h = this.selection.kind === 'platform' ? layout.platforms[this.selection.index].height ?? 20 : w;
+            ctx.strokeStyle = '#ffdc00';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(pos.x - 2, pos.y - 2, w + 4, h + 4);
+        }
+
+        this.drawPanel(ctx);
+    }
+
+    private drawPanel(ctx: CanvasRenderingContext2D) {
+        const platform = this.selectedPlatform();
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '16px "Press Start 2P"';
+        ctx.fillText('LEVEL EDITOR', 10, 24);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '10px "Press Start 2P"';
+        ctx.fillText(`GRID ${this.gridSize || 'OFF'} (G)`, 10, 44);
+        if (platform?.mobile) {
+            ctx.fillText(`SPEED ${Math.abs(platform.mobile.speed).toFixed(1)} (,.)  RANGE ${platform.mobile.range} ([])  R:REVERSE`, 10, 60);
+        }
+
+        ctx.textAlign = 'right';
+        ctx.fillText(`ENEMIES ${this.state.enemyCount} (UP/DOWN)`, GAME_WIDTH - 10, 24);
+        ENEMY_TYPES.forEach((type, i) => {
+            ctx.fillStyle = i === this.selectedEnemy ? '#ffdc00' : 'white';
+            ctx.fillText(`${i + 1} ${type.toUpperCase()} ${this.state.weights[type]}`, GAME_WIDTH - 10, 42 + i * 16);
+        });
+
+        ctx.fillStyle = 'white';
+        ctx.textAlign = 'center';
+        ctx.fillText('DRAG: MOVE/CREATE  EDGE: RESIZE  M: MOBILE  N: SPAWN  DEL: DELETE  Z/Y: UNDO/REDO', GAME_WIDTH / 2, GAME_HEIGHT - 26);
+        ctx.fillText('LEFT/RIGHT: ENEMY WEIGHT  E: EXPORT  I: IMPORT  T: PLAY-TEST  ESC: MENU', GAME_WIDTH / 2, GAME_HEIGHT - 10);
+
+        if (this.notice) {
+            ctx.fillStyle = '#ff4136';
+            ctx.fillText(this.notice, GAME_WIDTH / 2, 90, GAME_WIDTH - 40);
+        }
+    }
+}
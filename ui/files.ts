@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Offer `data` to the player as a JSON file download.
+export function downloadJson(filename: string, data: unknown) {
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
+
+// Let the player pick a local JSON file and hand its parsed contents to `onLoad`.
+// Parse failures and anything `onLoad` throws are passed to `onError`.
+export function pickJsonFile(onLoad: (data: unknown) => void, onError: (err: unknown) => void) {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.addEventListener('change', async () => {
+        const file = input.files?.[0];
+        if (!file) return;
+        try {
+            onLoad(JSON.parse(await file.text()));
+        } catch (err) {
+            onError(err);
+        }
+    });
+    input.click();
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Player } from '../game/player';
+import type { GameWorld } from '../game/world';
+
+/**
+ * Mirrors world state into the score/lives elements above the canvas. Text is
+ * only written when it changes so calling `update()` every frame stays cheap.
+ */
+export class HudBinder {
+    highScoreEl = document.getElementById('high-score')!;
+    p1ScoreEl = document.getElementById('p1-score')!;
+    p1ComboEl = comboElement(this.p1ScoreEl);
+    p1LivesEl = document.getElementById('p1-lives')!;
+    p2Ui = document.getElementById('p2-ui')!;
+    p2ScoreEl = document.getElementById('p2-score')!;
+    p2ComboEl = comboElement(this.p2ScoreEl);
+    p2LivesEl = document.getElementById('p2-lives')!;
+
+    showPlayerTwo(visible: boolean) {
+        this.p2Ui.classList.toggle('hidden', !visible);
+    }
+
+    update(world: GameWorld | null, highScore: number) {
+        setText(this.highScoreEl, highScore.toString().padStart(6, '0'));
+        const [p1, p2] = world?.players ?? [];
+        // Chains are cleared on the way out of a game, where scores are left up
+        setText(this.p1ComboEl, p1 ? comboText(p1) : '');
+        setText(this.p2ComboEl, p2 ? comboText(p2) : '');
+        if (p1) {
+            setText(this.p1ScoreEl, p1.score.toString().padStart(6, '0'));
+            setText(this.p1LivesEl, p1.lives.toString());
+        }
+        if (p2) {
+            setText(this.p2ScoreEl, p2.score.toString().padStart(6, '0'));
+            setText(this.p2LivesEl, p2.lives.toString());
+        }
+    }
+}
+
+// The combo readout sits under a player's score. It is made here so the host page needs no changes.
+function comboElement(scoreEl: HTMLElement) {
+    const el = document.createElement('p');
+    el.className = 'combo';
+    scoreEl.after(el);
+    return el;
+}
+
+// A chain shows once it has a second kick in it.
+function comboText(player: Player) {
+    return player.kickChain > 1 ? `COMBO x${player.kickChain}` : '';
+}
+
+function setText(el: HTMLElement, text: string) {
+    if (el.textContent !== text) el.textContent = text;
+}
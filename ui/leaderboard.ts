@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import type { CanvasRenderer } from './renderer';
+
+const LEADERBOARD_KEY = 'draicorBrosLeaderboard';
+const TABLE_SIZE = 10;
+const INITIALS_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ.';
+const LETTER_SPACING = 90;
+const LETTER_Y = 440; // Baseline of the initials
+const CONFIRM_BUTTON = { x: GAME_WIDTH / 2 - 80, y: 510, width: 160, height: 56 };
+
+export interface LeaderboardEntry {
+    initials: string;
+    score: number;
+    level: number;
+    players: number; // 1 or 2: which game mode the score was set in
+    date: string; // YYYY-MM-DD
+}
+
+// Result of a finished game waiting to be written to the table.
+export interface PendingScore {
+    playerId: number;
+    score: number;
+    level: number;
+    players: number;
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+    const e = value as LeaderboardEntry;
+    return typeof e === 'object' && e !== null && typeof e.initials === 'string' &&
+        Number.isFinite(e.score) && Number.isFinite(e.level) && (e.players === 1 || e.players === 2) && typeof e.date === 'string';
+}
+
+/**
+ * Persistent top-10 tables, one for 1P games and one for 2P games.
+ */
+export class Leaderboard {
+    private tables: { [players: number]: LeaderboardEntry[] } = { 1: [], 2: [] };
+
+    constructor() {
+        try {
+            const stored = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) || 'null');
+            [1, 2].forEach(players => {
+                const table = stored?.[players];
+                if (Array.isArray(table)) this.tables[players] = table.filter(isEntry).slice(0, TABLE_SIZE);
+            });
+        } catch {
+            // Unreadable tables start over empty
+        }
+    }
+
+    entries(players: number) {
+        return this.tables[players] ?? [];
+    }
+
+    qualifies(players: number, score: number) {
+        const table = this.entries(players);
+        return score > 0 && (table.length < TABLE_SIZE || score > table[table.length - 1].score);
+    }
+
+    // Insert an entry and return its rank (0-based), or -1 if it did not make the table.
+    add(entry: LeaderboardEntry) {
+        const table = this.entries(entry.players);
+        // Ties go below existing entries: whoever got there first keeps the spot
+        let rank = table.findIndex(e => entry.score > e.score);
+        if (rank === -1) rank = table.length;
+        if (rank >= TABLE_SIZE) return -1;
+        table.splice(rank, 0, entry);
+        table.length = Math.min(table.length, TABLE_SIZE);
+        localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(this.tables));
+        return rank;
+    }
+}
+
+/**
+ * Arcade-style three-letter name entry: up/down cycles the letter under the
+ * cursor, left/right moves the cursor, Enter on the last letter confirms.
+ */
+export class InitialsEntry {
+    pending: PendingScore;
+    letters = [0, 0, 0];
+    cursor = 0;
+
+    constructor(pending: PendingScore) {
+        this.pending = pending;
+    }
+
+    get initials() {
+        return this.letters.map(i => INITIALS_ALPHABET[i]).join('');
+    }
+
+    // Returns true once the initials are confirmed.
+    handleKey(key: string): boolean {
+        const size = INITIALS_ALPHABET.length;
+        if (key === 'arrowup') this.letters[this.cursor] = (this.letters[this.cursor] + 1) % size;
+        else if (key === 'arrowdown') this.letters[this.cursor] = (this.letters[this.cursor] + size - 1) % size;
+        else if (key === 'arrowleft' || key === 'backspace') this.cursor = Math.max(0, this.cursor - 1);
+        else if (key === 'arrowright') this.cursor = Math.min(2, this.cursor + 1);
+        else if (key === 'enter') {
+            if (this.cursor === 2) return true;
+            this.cursor++;
+        } else if (key.length === 1 && INITIALS_ALPHABET.includes(key.toUpperCase())) {
+            // Typing a letter sets it and moves on, for keyboard players
+            this.letters[this.cursor] = INITIALS_ALPHABET.indexOf(key.toUpperCase());
+            this.cursor = Math.min(2, this.cursor + 1);
+        }
+        return false;
+    }
+
+    // A touch at (x, y): a letter steps it on, the OK button confirms. Returns true once confirmed.
+    tap(x: number, y: number): boolean {
+        const b = CONFIRM_BUTTON;
+        if (x >= b.x && x < b.x + b.width && y >= b.y && y < b.y + b.height) return true;
+        if (y < LETTER_Y - 70 || y > LETTER_Y + 30) return false;
+        const letter = Math.round((x - GAME_WIDTH / 2) / LETTER_SPACING) + 1;
+        if (letter < 0 || letter > 2) return false;
+        this.cursor = letter;
+        return this.handleKey('arrowup');
+    }
+
+    // `touchButtons` adds the OK button for players without a keyboard.
+    draw(renderer: CanvasRenderer, touchButtons = false) {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('NEW HIGH SCORE!', GAME_WIDTH / 2, 180);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '20px "Press Start 2P"';
+        const who = this.pending.players === 2 ? `PLAYER ${this.pending.playerId}  ` : '';
+        ctx.fillText(`${who}${this.pending.score.toString().padStart(6, '0')}`, GAME_WIDTH / 2, 250);
+        ctx.fillText('ENTER YOUR INITIALS', GAME_WIDTH / 2, 320);
+
+        ctx.font = '60px "Press Start 2P"';
+        this.letters.forEach((_, i) => {
+            const x = GAME_WIDTH / 2 + (i - 1) * LETTER_SPACING;
+            ctx.fillStyle = i === this.cursor ? '#ffdc00' : 'white';
+            ctx.fillText(INITIALS_ALPHABET[this.letters[i]], x, LETTER_Y);
+            if (i === this.cursor) ctx.fillRect(x - 30, LETTER_Y + 20, 60, 6);
+        });
+
+        if (touchButtons) {
+            const b = CONFIRM_BUTTON;
+            ctx.strokeStyle = 'white';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(b.x, b.y, b.width, b.height);
+            ctx.fillStyle = 'white';
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText('OK', GAME_WIDTH / 2, b.y + b.height / 2 + 10);
+        }
+
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        const help = touchButtons ? 'TAP A LETTER TO CHANGE IT, THEN OK' : 'UP/DOWN: LETTER  LEFT/RIGHT: MOVE  ENTER: CONFIRM';
+        ctx.fillText(help, GAME_WIDTH / 2, GAME_HEIGHT - 60);
+    }
+}
+
+/**
+ * The high score tables. Left/right switches between 1P and 2P; `highlight`
+ * marks a freshly added entry.
+ */
+export class LeaderboardScreen {
+    leaderboard: Leaderboard;
+    players = 1;
+    highlight: number | null = null;
+
+    constructor(leaderboard: Leaderboard) {
+        this.leaderboard = leaderboard;
+    }
+
+    show(players: number, highlight: number | null = null) {
+        this.players = players;
+        this.highlight = highlight;
+    }
+
+    // Returns true when the player asked to leave the screen.
+    handleKey(key: string): boolean {
+        if (key === 'arrowleft' || key === 'arrowright') {
+            this.players = this.players === 1 ? 2 : 1;
+            this.highlight = null;
+        }
+        return key === 'enter' || key === 'escape';
+    }
+
+    // `footer` is the key help along the bottom; attract mode swaps in its own.
+    draw(renderer: CanvasRenderer, footer = 'LEFT/RIGHT: 1P/2P  ENTER: BACK') {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('HIGH SCORES', GAME_WIDTH / 2, 90);
+
+        ctx.font = '20px "Press Start 2P"';
+        ctx.fillStyle = this.players === 1 ? '#ffdc00' : '#555';
+        ctx.fillText('1 PLAYER', GAME_WIDTH / 2 - 150, 145);
+        ctx.fillStyle = this.players === 2 ? '#ffdc00' : '#555';
+        ctx.fillText('2 PLAYERS', GAME_WIDTH / 2 + 150, 145);
+
+        const columns = [
+            { label: 'RANK', x: 120 },
+            { label: 'NAME', x: 250 },
+            { label: 'SCORE', x: 420 },
+            { label: 'LEVEL', x: 590 },
+            { label: 'DATE', x: 780 },
+        ];
+        ctx.font = '14px "Press Start 2P"';
+        ctx.fillStyle = '#ff4136';
+        columns.forEach(c => ctx.fillText(c.label, c.x, 200));
+
+        const entries = this.leaderboard.entries(this.players);
+        if (entries.length === 0) {
+            ctx.fillStyle = 'white';
+            ctx.fillText('NO SCORES YET', GAME_WIDTH / 2, 320);
+        }
+        entries.forEach((entry, i) => {
+            const y = 240 + i * 38;
+            ctx.fillStyle = i === this.highlight ? '#ffdc00' : 'white';
+            const cells = [`${i + 1}`, entry.initials, entry.score.toString().padStart(6, '0'), `${entry.level}`, entry.date];
+            cells.forEach((text, c) => ctx.fillText(text, columns[c].x, y));
+        });
+
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText(footer, GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
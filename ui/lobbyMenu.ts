@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import { JOIN_CODE_LENGTH } from '../server/protocol';
+import type { NetClient } from './netplay';
+import type { CanvasRenderer } from './renderer';
+
+const OPTIONS = ['HOST GAME', 'JOIN GAME'];
+
+/**
+ * The online co-op lobby: host a game and read out its join code, or type in
+ * a partner's code to join theirs. The game itself is started by the app once
+ * both players are connected.
+ */
+export class LobbyMenu {
+    net: NetClient;
+    option = 0;
+    enteringCode = false;
+    typedCode = '';
+
+    constructor(net: NetClient) {
+        this.net = net;
+    }
+
+    // Returns true when the player asked to leave the screen.
+    handleKey(key: string): boolean {
+        // While connecting or waiting for a partner, Escape cancels back to the options
+        if (this.net.status !== 'offline') {
+            if (key === 'escape') this.net.close();
+            return false;
+        }
+
+        if (this.enteringCode) {
+            if (key === 'escape') this.enteringCode = false;
+            else if (key === 'backspace') this.typedCode = this.typedCode.slice(0, -1);
+            else if (key === 'enter' && this.typedCode.length === JOIN_CODE_LENGTH) {
+                this.enteringCode = false;
+                this.net.join(this.typedCode);
+            } else if (/^[a-z]$/.test(key) && this.typedCode.length < JOIN_CODE_LENGTH) {
+                this.typedCode += key.toUpperCase();
+            }
+            return false;
+        }
+
+        if (key === 'escape') return true;
+        if (key === 'arrowup' || key === 'arrowdown') this.option = 1 - this.option;
+        if (key === 'enter') {
+            if (this.option === 0) {
+                this.net.host();
+            } else {
+                this.enteringCode = true;
+                this.typedCode = '';
+            }
+        }
+        return false;
+    }
+
+    draw(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('ONLINE CO-OP', GAME_WIDTH / 2, 90);
+
+        const { status, code, error } = this.net;
+        ctx.fillStyle = 'white';
+        let help = 'UP/DOWN: SELECT  ENTER: CONFIRM  ESC: BACK';
+        if (status === 'hosting') {
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText('YOUR JOIN CODE', GAME_WIDTH / 2, 240);
+            ctx.fillStyle = '#ffdc00';
+            ctx.font = '64px "Press Start 2P"';
+            ctx.fillText(code || '....', GAME_WIDTH / 2, 340);
+            ctx.fillStyle = 'white';
+            ctx.font = '16px "Press Start 2P"';
+            ctx.fillText('Waiting for your partner to join...', GAME_WIDTH / 2, 420);
+            help = 'ESC: CANCEL';
+        } else if (status !== 'offline') {
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText(status === 'joining' ? `JOINING ${code}...` : 'CONNECTING...', GAME_WIDTH / 2, 320);
+            help = 'ESC: CANCEL';
+        } else if (this.enteringCode) {
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText("ENTER YOUR PARTNER'S CODE", GAME_WIDTH / 2, 240);
+            ctx.fillStyle = '#ffdc00';
+            ctx.font = '64px "Press Start 2P"';
+            ctx.fillText(this.typedCode.padEnd(JOIN_CODE_LENGTH, '_'), GAME_WIDTH / 2, 340);
+            help = 'A-Z: TYPE  ENTER: JOIN  ESC: BACK';
+        } else {
+            ctx.font = '26px "Press Start 2P"';
+            OPTIONS.forEach((option, i) => {
+                ctx.fillStyle = i === this.option ? '#ffdc00' : 'white';
+                ctx.fillText(option, GAME_WIDTH / 2, 280 + i * 50);
+            });
+        }
+
+        if (error && status === 'offline') {
+            ctx.fillStyle = '#ff4136';
+            ctx.font = '14px "Press Start 2P"';
+            ctx.fillText(error, GAME_WIDTH / 2, 500, GAME_WIDTH - 40);
+        }
+
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText(`RELAY: ${this.net.url}`, GAME_WIDTH / 2, GAME_HEIGHT - 60, GAME_WIDTH - 40);
+        ctx.fillText(help, GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
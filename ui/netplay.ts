@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LevelPack } from '../game/levelPack';
+import type { ClientMessage, ServerMessage } from '../server/protocol';
+
+// What the two browsers say to each other through the relay.
+export type PeerMessage =
+    | { type: 'start'; seed: number; levelPack?: LevelPack } // Host to guest: the game both will run
+    | { type: 'input'; tick: number; bits: number }
+    | { type: 'checksum'; tick: number; sum: number };
+
+export type NetEvent =
+    | { type: 'peerJoined' }
+    | { type: 'peerLeft' }
+    | { type: 'disconnected' }
+    | PeerMessage;
+
+export type NetStatus = 'offline' | 'connecting' | 'hosting' | 'joining' | 'connected';
+
+/**
+ * The browser end of the relay connection. Incoming messages are queued and
+ * handed out by `takeEvents()`, which the game loop polls once per frame, so
+ * network traffic never lands in the middle of a tick.
+ */
+export class NetClient {
+    url: string;
+    status: NetStatus = 'offline';
+    code = ''; // Join code of the game being hosted or joined
+    error = ''; // Why the last attempt failed, for the lobby to show
+    private socket: WebSocket | null = null;
+    private events: NetEvent[] = [];
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    host() {
+        this.code = '';
+        this.open({ type: 'host' }, 'hosting');
+    }
+
+    join(code: string) {
+        this.code = code;
+        this.open({ type: 'join', code }, 'joining');
+    }
+
+    send(message: PeerMessage) {
+        this.sendToRelay({ type: 'relay', data: message });
+    }
+
+    // Leaving is always deliberate, so it is not reported as a disconnect.
+    close() {
+        const socket = this.socket;
+        this.socket = null;
+        this.status = 'offline';
+        this.events = [];
+        socket?.close();
+    }
+
+    takeEvents(): NetEvent[] {
+        const events = this.events;
+        this.events = [];
+        return events;
+    }
+
+    private open(first: ClientMessage, waitingStatus: NetStatus) {
+        this.close();
+        this.error = '';
+        this.status = 'connecting';
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(this.url);
+        } catch {
+            this.fail('Could not reach the relay server');
+            return;
+        }
+        this.socket = socket;
+        socket.onopen = () => {
+            this.status = waitingStatus;
+            this.sendToRelay(first);
+        };
+        socket.onmessage = e => {
+            if (socket === this.socket) this.receive(JSON.parse(e.data) as ServerMessage);
+        };
+        socket.onerror = () => {
+            if (socket === this.socket && this.status === 'connecting') this.fail('Could not reach the relay server');
+        };
+        socket.onclose = () => {
+            if (socket !== this.socket) return;
+            const wasConnected = this.status === 'connected';
+            this.socket = null;
+            this.status = 'offline';
+            if (wasConnected) this.events.push({ type: 'disconnected' });
+            else if (!this.error) this.error = 'Lost connection to the relay server';
+        };
+    }
+
+    private receive(message: ServerMessage) {
+        switch (message.type) {
+            case 'hosted':
+                this.code = message.code;
+                break;
+            case 'joined':
+                this.status = 'connected';
+                break;
+            case 'peerJoined':
+                this.status = 'connected';
+                this.events.push({ type: 'peerJoined' });
+                break;
+            case 'peerLeft':
+                this.close();
+                this.events.push({ type: 'peerLeft' });
+                break;
+            case 'error':
+                this.fail(message.message);
+                break;
+            case 'relay':
+                this.events.push(message.data as PeerMessage);
+                break;
+        }
+    }
+
+    private fail(message: string) {
+        this.close();
+        this.error = message;
+    }
+
+    private sendToRelay(message: ClientMessage) {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,590 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Animation, createAnimation } from '../game/animation';
+import { BONUS_TALLY_TIME, bonusPoints, Coin, PERFECT_BONUS } from '../game/bonus';
+import { BossEnemy, Fireball } from '../game/boss';
+import { GAME_HEIGHT, GAME_WIDTH, VERSUS_KILLS_TO_WIN, VERSUS_ROUNDS_TO_WIN } from '../game/constants';
+import type { Enemy } from '../game/enemies';
+import type { Particle } from '../game/particle';
+import type { ExplosiveBlock, Platform } from '../game/platforms';
+import type { Player } from '../game/player';
+import { PowerUp, POWERUPS, PowerUpType } from '../game/powerups';
+import { BOTTOM_PIPES, Pipe, PIPE_SIZE, pipeMouthX, topPipe } from '../game/waves';
+import type { GameWorld } from '../game/world';
+import type { AccessibilitySettings } from './accessibility';
+import type { SpriteAtlas } from './sprites';
+
+// HUD icons do not animate.
+const STILL_ANIMATION = createAnimation();
+const PIPE_RIM = 12;
+const SCORE_POP_COLOR = '#ffdc00';
+const STILL_BLINK_ALPHA = 0.5; // Reduced motion fades what would otherwise blink
+const PATTERN_TILE = 12;
+const MENU_Y = GAME_HEIGHT / 2 - 25; // Baseline of the first player-select option
+const MENU_SPACING = 26;
+const MENU_BOTTOM = GAME_HEIGHT / 2 + 238; // Lowest baseline for the last option, clear of the help text under the menu
+
+// From the Okabe-Ito set, which stays distinct under the common colour-vision deficiencies.
+const HIGH_CONTRAST = {
+    platform: '#0072B2',
+    mobilePlatform: '#E69F00',
+    frozenPlatform: '#FFFFFF',
+    frozenEnemy: 'rgba(86, 180, 233, 0.6)',
+};
+
+type PatternKind = 'frozen' | 'mobile';
+
+// Blend between the previous and current tick positions. Jumps larger than half
+// the screen are wraps or respawns, so those snap instead of sweeping across.
+function interpolate(prev: number, current: number, alpha: number) {
+    if (Math.abs(current - prev) > GAME_WIDTH / 2) return current;
+    return prev + (current - prev) * alpha;
+}
+
+// Rows close up when there are too many to fit above the help text at full spacing.
+function menuSpacing(count: number) {
+    return Math.min(MENU_SPACING, (MENU_BOTTOM - MENU_Y) / Math.max(1, count - 1));
+}
+
+/**
+ * Draws a GameWorld and the menu screens onto a 2D canvas. It only reads
+ * simulation state; nothing here feeds back into the game. Entities use the
+ * sprite atlas once it has loaded and their emoji until then (or if it never does).
+ */
+export class CanvasRenderer {
+    ctx: CanvasRenderingContext2D;
+    atlas: SpriteAtlas | null = null;
+    accessibility: AccessibilitySettings = { reducedMotion: false, highContrast: false, gameSpeed: 1 };
+    private particleOrder: Particle[] = []; // Reused every frame for drawParticles
+    private patterns = new Map<PatternKind, CanvasPattern | null>();
+
+    constructor(ctx: CanvasRenderingContext2D) {
+        this.ctx = ctx;
+    }
+
+    clear() {
+        this.ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+    }
+
+    // `alpha` is how far the renderer sits between the last two simulation ticks (0..1).
+    drawWorld(world: GameWorld, alpha: number) {
+        world.platforms.forEach(p => this.drawPlatform(p, alpha));
+        this.drawExplosiveBlock(world.explosiveBlock);
+        world.powerUps.forEach(p => this.drawPowerUp(p, alpha));
+        world.coins.forEach(c => this.drawCoin(c));
+        world.enemies.forEach(e => this.drawEnemy(e, alpha, world.enemyFreezeTimer > 0));
+        // Over the enemies, so they disappear into them and slide out of them
+        world.spawnPoints.forEach(s => this.drawPipe(topPipe(s)));
+        BOTTOM_PIPES.forEach(p => this.drawPipe(p));
+        world.players.forEach(p => this.drawPlayer(p, alpha));
+        world.projectiles.forEach(p => this.drawProjectile(p, alpha));
+    }
+
+    // Sorted so each look, glyph and size is drawn in one run, and the context's font and colour change once per run.
+    drawParticles(particles: Particle[], alpha: number) {
+        const order = this.particleOrder;
+        order.length = 0;
+        particles.forEach(p => order.push(p));
+        order.sort((a, b) => a.batch < b.batch ? -1 : a.batch > b.batch ? 1 : a.size - b.size);
+        const ctx = this.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        let font = '';
+        let fill = '';
+        order.forEach(particle => {
+            const x = interpolate(particle.prevX, particle.x, alpha);
+            const y = interpolate(particle.prevY, particle.y, alpha);
+            const size = particle.size;
+            ctx.globalAlpha = particle.life / particle.maxLife;
+            if (particle.look === 'square') {
+                if (fill !== particle.sprite) ctx.fillStyle = fill = particle.sprite;
+                ctx.fillRect(x, y, size, size);
+                return;
+            }
+            if (particle.look === 'glyph' && particle.skin !== null && this.atlas?.draw(ctx, particle.skin, particle.animation, x - size / 2, y - size / 2, size, size)) return;
+            const nextFont = particle.look === 'text' ? `${Math.round(size)}px "Press Start 2P"` : `${Math.round(size)}px sans-serif`;
+            if (font !== nextFont) ctx.font = font = nextFont;
+            if (particle.look === 'text' && fill !== SCORE_POP_COLOR) ctx.fillStyle = fill = SCORE_POP_COLOR;
+            ctx.fillText(particle.sprite, x, y);
+        });
+        ctx.globalAlpha = 1.0;
+    }
+
+    drawPlayer(player: Player, alpha: number) {
+        if (player.isDead) return;
+        // Blink through the grace period after a shield breaks
+        if (player.invulnerableTimer > 0 && this.isBlinkedOut(player.invulnerableTimer, 100)) return;
+        const ctx = this.ctx;
+        ctx.save();
+        if (player.invulnerableTimer > 0 && this.accessibility.reducedMotion) ctx.globalAlpha = STILL_BLINK_ALPHA;
+        const x = interpolate(player.prevX, player.x, alpha);
+        const y = interpolate(player.prevY, player.y, alpha);
+        if (player.effects.shield) {
+            ctx.strokeStyle = '#7FDBFF';
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.arc(x + player.width / 2, y + player.height / 2, player.width * 0.75, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+        if (!this.atlas?.draw(ctx, player.skin, player.animation, x, y, player.width, player.height, player.facing < 0)) {
+            ctx.font = '40px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(player.sprite, x + player.width / 2, y + player.height / 2);
+        }
+        ctx.restore();
+    }
+
+    drawEnemy(enemy: Enemy, alpha: number, frozen = false) {
+        if (enemy.isOutOfSight()) return;
+        const ctx = this.ctx;
+        ctx.save();
+        if (enemy.hitAnimationTimer > 0 && this.isBlinkedOut(enemy.hitAnimationTimer, 50)) {
+            ctx.restore();
+            return;
+        }
+        if (enemy.hitAnimationTimer > 0 && this.accessibility.reducedMotion) ctx.globalAlpha = STILL_BLINK_ALPHA;
+        // Shake on the spot in the last moments before getting back up
+        const shake = enemy.isRecovering() && !this.accessibility.reducedMotion ? (Math.floor(enemy.flipTimer / 50) % 2 === 0 ? -2 : 2) : 0;
+        const x = interpolate(enemy.prevX, enemy.x, alpha) + shake;
+        const y = interpolate(enemy.prevY, enemy.y, alpha);
+        if (enemy.enraged) {
+            ctx.shadowColor = '#FF4136';
+            ctx.shadowBlur = 12;
+        }
+        if (frozen) {
+            ctx.fillStyle = this.accessibility.highContrast ? HIGH_CONTRAST.frozenEnemy : 'rgba(127, 219, 255, 0.5)';
+            ctx.fillRect(x - 2, y - 2, enemy.width + 4, enemy.height + 4);
+            if (this.accessibility.highContrast) this.drawFrozenCue(x - 2, y - 2, enemy.width + 4, enemy.height + 4);
+        }
+        // Atlas frames for flipped enemies are already upside down
+        if (this.atlas?.draw(ctx, enemy.skin, enemy.animation, x, y, enemy.width, enemy.height, enemy.vx < 0)) {
+            ctx.restore();
+            return;
+        }
+        if (enemy.isFlipped) {
+            ctx.translate(x + enemy.width / 2, y + enemy.height / 2);
+            ctx.rotate(Math.PI);
+            ctx.translate(-(x + enemy.width / 2), -(y + enemy.height / 2));
+        }
+        ctx.font = `${Math.max(36, enemy.height - 10)}px sans-serif`; // Only the boss outgrows the usual glyph
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(enemy.sprite, x + enemy.width / 2, y + enemy.height / 2);
+        ctx.restore();
+    }
+
+    drawProjectile(projectile: Fireball, alpha: number) {
+        const x = interpolate(projectile.prevX, projectile.x, alpha);
+        const y = interpolate(projectile.prevY, projectile.y, alpha);
+        if (this.atlas?.draw(this.ctx, projectile.skin, projectile.animation, x, y, projectile.width, projectile.height, projectile.vx < 0)) return;
+        const ctx = this.ctx;
+        ctx.font = `${projectile.height}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(projectile.sprite, x + projectile.width / 2, y + projectile.height / 2);
+    }
+
+    drawPowerUp(powerUp: PowerUp, alpha: number) {
+        // Blink for the last two seconds before it disappears
+        if (powerUp.life < 2000 && this.isBlinkedOut(powerUp.life, 150)) return;
+        const x = interpolate(powerUp.prevX, powerUp.x, alpha);
+        const y = interpolate(powerUp.prevY, powerUp.y, alpha);
+        this.ctx.save();
+        if (powerUp.life < 2000 && this.accessibility.reducedMotion) this.ctx.globalAlpha = STILL_BLINK_ALPHA;
+        this.drawItemIcon(powerUp.type, powerUp.skin, powerUp.animation, x, y, powerUp.width);
+        this.ctx.restore();
+    }
+
+    drawCoin(coin: Coin) {
+        if (this.atlas?.draw(this.ctx, coin.skin, coin.animation, coin.x, coin.y, coin.width, coin.height)) return;
+        const ctx = this.ctx;
+        ctx.font = `${coin.width}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(coin.sprite, coin.x + coin.width / 2, coin.y + coin.height / 2);
+    }
+
+    private drawItemIcon(type: PowerUpType, skin: string, animation: Animation, x: number, y: number, size: number) {
+        if (this.atlas?.draw(this.ctx, skin, animation, x, y, size, size)) return;
+        const ctx = this.ctx;
+        ctx.font = `${size}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(POWERUPS[type].sprite, x + size / 2, y + size / 2);
+    }
+
+    // Active power-ups as icons with draining bars: player 1 top left, player 2 top right, the freeze clock centred.
+    drawPowerUpTimers(world: GameWorld) {
+        const ctx = this.ctx;
+        const icon = (type: PowerUpType, timeLeft: number, x: number) => {
+            this.drawItemIcon(type, `powerup.${type}`, STILL_ANIMATION, x, 10, 24);
+            ctx.fillStyle = '#333';
+            ctx.fillRect(x, 38, 24, 4);
+            ctx.fillStyle = timeLeft < 2000 ? '#ff4136' : '#ffdc00';
+            ctx.fillRect(x, 38, 24 * Math.min(1, timeLeft / POWERUPS[type].duration), 4);
+        };
+        world.players.forEach((player, i) => {
+            const active = Object.entries(player.effects) as [PowerUpType, number][];
+            active.forEach(([type, timeLeft], slot) => {
+                const x = i === 0 ? 10 + slot * 32 : GAME_WIDTH - 34 - slot * 32;
+                icon(type, timeLeft, x);
+            });
+        });
+        if (world.enemyFreezeTimer > 0) icon('freeze', world.enemyFreezeTimer, GAME_WIDTH / 2 - 12);
+    }
+
+    // The boss's remaining health across the top of the screen, under the power-up icons.
+    drawBossHealth(world: GameWorld) {
+        const boss = world.enemies.find((e): e is BossEnemy => e instanceof BossEnemy);
+        if (!boss) return;
+        const ctx = this.ctx;
+        const width = 400;
+        const x = GAME_WIDTH / 2 - width / 2;
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText('BOSS', GAME_WIDTH / 2, 62);
+        ctx.fillStyle = '#333';
+        ctx.fillRect(x, 68, width, 12);
+        ctx.fillStyle = boss.hitAnimationTimer > 0 ? 'white' : '#ff4136';
+        ctx.fillRect(x, 68, width * boss.health / boss.maxHealth, 12);
+        ctx.strokeStyle = 'white';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, 68, width, 12);
+    }
+
+    drawPlatform(platform: Platform, alpha: number) {
+        const ctx = this.ctx;
+        const shake = platform.shakeTimer > 0 && !this.accessibility.reducedMotion ? Math.sin(platform.shakeTimer / 15) * 4 : 0;
+        const x = interpolate(platform.prevX, platform.x, alpha);
+        const y = platform.y + shake;
+        if (!this.accessibility.highContrast) {
+            ctx.fillStyle = platform.isFrozen ? '#7FDBFF' : platform.color;
+            ctx.fillRect(x, y, platform.width, platform.height);
+            return;
+        }
+        // Colour alone does not tell them apart for everyone, so frozen and moving platforms are textured too
+        const mobile = platform.range > 0;
+        ctx.fillStyle = platform.isFrozen ? HIGH_CONTRAST.frozenPlatform : mobile ? HIGH_CONTRAST.mobilePlatform : HIGH_CONTRAST.platform;
+        ctx.fillRect(x, y, platform.width, platform.height);
+        const pattern = platform.isFrozen ? this.pattern('frozen') : mobile ? this.pattern('mobile') : null;
+        if (!pattern) return;
+        ctx.save();
+        ctx.translate(x, y); // The texture travels with the platform
+        ctx.fillStyle = pattern;
+        ctx.fillRect(0, 0, platform.width, platform.height);
+        ctx.restore();
+    }
+
+    // Frozen enemies get the frozen platforms' hatching and an outline, so the freeze reads without its tint.
+    private drawFrozenCue(x: number, y: number, width: number, height: number) {
+        const ctx = this.ctx;
+        const pattern = this.pattern('frozen');
+        ctx.save();
+        if (pattern) {
+            ctx.translate(x, y);
+            ctx.fillStyle = pattern;
+            ctx.fillRect(0, 0, width, height);
+            ctx.translate(-x, -y);
+        }
+        ctx.strokeStyle = HIGH_CONTRAST.frozenPlatform;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, y, width, height);
+        ctx.restore();
+    }
+
+    // Whether a blinking sprite is in its hidden half. With reduced motion it never is; it is drawn faded instead.
+    private isBlinkedOut(timer: number, period: number) {
+        return !this.accessibility.reducedMotion && Math.floor(timer / period) % 2 === 0;
+    }
+
+    // A small repeating tile, made once on first use.
+    private pattern(kind: PatternKind): CanvasPattern | null {
+        if (!this.patterns.has(kind)) {
+            const tile = document.createElement('canvas');
+            tile.width = PATTERN_TILE;
+            tile.height = PATTERN_TILE;
+            const tileCtx = tile.getContext('2d')!;
+            tileCtx.strokeStyle = '#000';
+            tileCtx.lineWidth = 2;
+            tileCtx.beginPath();
+            if (kind === 'frozen') {
+                // Diagonal hatching, continuous across tiles
+                tileCtx.moveTo(0, PATTERN_TILE);
+                tileCtx.lineTo(PATTERN_TILE, 0);
+                tileCtx.moveTo(-2, 2);
+                tileCtx.lineTo(2, -2);
+                tileCtx.moveTo(PATTERN_TILE - 2, PATTERN_TILE + 2);
+                tileCtx.lineTo(PATTERN_TILE + 2, PATTERN_TILE - 2);
+            } else {
+                // A chevron pointing along the platform's track
+                tileCtx.moveTo(3, 3);
+                tileCtx.lineTo(PATTERN_TILE - 3, PATTERN_TILE / 2);
+                tileCtx.lineTo(3, PATTERN_TILE - 3);
+            }
+            tileCtx.stroke();
+            this.patterns.set(kind, this.ctx.createPattern(tile, 'repeat'));
+        }
+        return this.patterns.get(kind)!;
+    }
+
+    drawPipe(pipe: Pipe) {
+        const ctx = this.ctx;
+        ctx.fillStyle = '#2ECC40';
+        ctx.fillRect(pipe.x, pipe.y, pipe.width, PIPE_SIZE);
+        // A wider rim marks the open end
+        const mouth = pipeMouthX(pipe);
+        ctx.fillStyle = '#01FF70';
+        ctx.fillRect(pipe.x === 0 ? mouth - PIPE_RIM : mouth, pipe.y - 4, PIPE_RIM, PIPE_SIZE + 8);
+    }
+
+    drawExplosiveBlock(block: ExplosiveBlock) {
+        if (block.usesLeft <= 0) return;
+        const ctx = this.ctx;
+
+        ctx.save();
+        if (block.cooldown > 0) ctx.globalAlpha = 0.5;
+        ctx.fillStyle = '#ff4136';
+        ctx.fillRect(block.x, block.y, block.width, block.height);
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 3;
+        ctx.strokeRect(block.x, block.y, block.width, block.height);
+        ctx.fillStyle = '#fff';
+        ctx.font = '30px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('B', block.x + block.width / 2, block.y + block.height / 2 + 2);
+        ctx.restore();
+    }
+
+    drawBanner(text: string) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.fillStyle = 'white';
+        ctx.font = '50px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.fillText(text, GAME_WIDTH / 2, GAME_HEIGHT / 2);
+    }
+
+    drawPlayerSelect(options: string[], selected: number, levelPackName: string, notice: string) {
+        const ctx = this.ctx;
+        ctx.textAlign = 'center';
+        // Shadow
+        ctx.fillStyle = '#ff4136'; // Red shadow
+        ctx.font = '80px "Press Start 2P"';
+        ctx.fillText('DRAICOR BROS', GAME_WIDTH / 2 + 5, GAME_HEIGHT / 2 - 150 + 5);
+        // Main Text
+        ctx.fillStyle = '#ffdc00'; // Yellow text
+        ctx.fillText('DRAICOR BROS', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 150);
+
+
+        ctx.fillStyle = 'white';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('SELECT PLAYERS', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 70);
+
+        ctx.font = '22px "Press Start 2P"';
+        const spacing = menuSpacing(options.length);
+        options.forEach((option, i) => {
+            ctx.fillStyle = i === selected ? '#ffdc00' : 'white';
+            ctx.fillText(option, GAME_WIDTH / 2, MENU_Y + i * spacing);
+        });
+
+        ctx.font = '20px "Press Start 2P"';
+        ctx.fillStyle = 'white';
+        ctx.fillText('Use Arrow Keys and Enter', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 265);
+
+        ctx.font = '14px "Press Start 2P"';
+        ctx.fillText('Press L to load a replay, F for fullscreen', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 292);
+        ctx.fillText(`Press P to load a level pack (${levelPackName})`, GAME_WIDTH / 2, GAME_HEIGHT / 2 + 316);
+
+        if (notice) {
+            ctx.fillStyle = '#ff4136';
+            ctx.font = '12px "Press Start 2P"';
+            ctx.fillText(notice, GAME_WIDTH / 2, GAME_HEIGHT / 2 + 342, GAME_WIDTH - 40);
+        }
+    }
+
+    // The player-select option drawn across height `y`, for taps; null between or beyond them.
+    playerSelectOptionAt(y: number, count: number): number | null {
+        // Each row runs from just above its text to just above the next one's
+        const spacing = menuSpacing(count);
+        const index = Math.floor((y - MENU_Y + spacing - 3) / spacing);
+        return index >= 0 && index < count ? index : null;
+    }
+
+    drawBossDefeated(bonus: number) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ff4136';
+        ctx.font = '50px "Press Start 2P"';
+        ctx.fillText('BOSS DEFEATED!', GAME_WIDTH / 2 + 4, GAME_HEIGHT / 2 - 30 + 4);
+        ctx.fillStyle = '#ffdc00';
+        ctx.fillText('BOSS DEFEATED!', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 30);
+        ctx.fillStyle = 'white';
+        ctx.font = '24px "Press Start 2P"';
+        ctx.fillText(`BONUS +${bonus}`, GAME_WIDTH / 2, GAME_HEIGHT / 2 + 40);
+    }
+
+    drawGameOver(canSaveReplay: boolean, newHighScore: boolean) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.fillStyle = '#ff4136';
+        ctx.font = '60px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.fillText('GAME OVER', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 50);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '20px "Press Start 2P"';
+        if (newHighScore) {
+            ctx.fillStyle = '#ffdc00';
+            ctx.fillText('NEW HIGH SCORE! Press Enter', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 50);
+            ctx.fillStyle = 'white';
+        } else {
+            ctx.fillText('Press Enter to return to menu', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 50);
+        }
+        if (canSaveReplay) {
+            ctx.font = '14px "Press Start 2P"';
+            ctx.fillText('Press R to save a replay', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 100);
+        }
+    }
+
+    // The bonus stage clock and how many coins are left, under the power-up icons.
+    drawBonusStatus(world: GameWorld) {
+        const ctx = this.ctx;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = world.bonusTimer < 5000 ? '#ff4136' : '#ffdc00';
+        ctx.font = '24px "Press Start 2P"';
+        ctx.fillText(Math.ceil(Math.max(0, world.bonusTimer) / 1000).toString(), GAME_WIDTH / 2, 70);
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText(`COINS LEFT ${world.coins.length}`, GAME_WIDTH / 2, 92);
+    }
+
+    // Each player's coins counting up into points, then the perfect bonus if everything was collected.
+    drawBonusTally(world: GameWorld) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('BONUS STAGE', GAME_WIDTH / 2, GAME_HEIGHT / 2 - 130);
+
+        // The count runs over the first half of the screen's time, then holds
+        const progress = Math.min(1, (BONUS_TALLY_TIME - world.levelTransitionTimer) / (BONUS_TALLY_TIME / 2));
+        world.players.forEach((player, i) => {
+            const coins = Math.floor(world.bonusCoins[i] * progress);
+            const y = GAME_HEIGHT / 2 - 50 + i * 50;
+            ctx.fillStyle = player.isDead ? '#666' : 'white';
+            ctx.font = '20px "Press Start 2P"';
+            ctx.fillText(`P${player.id}  ${coins} x 🪙  =  ${bonusPoints(coins, false)}`, GAME_WIDTH / 2, y);
+        });
+
+        if (progress === 1) {
+            ctx.font = '24px "Press Start 2P"';
+            if (world.bonusPerfect) {
+                ctx.fillStyle = '#ffdc00';
+                ctx.fillText(`PERFECT! +${PERFECT_BONUS}`, GAME_WIDTH / 2, GAME_HEIGHT / 2 + 90);
+            } else {
+                ctx.fillStyle = 'white';
+                ctx.fillText('TIME UP', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 90);
+            }
+        }
+    }
+
+    // Versus progress across the top: the round, each player's kills towards the target and rounds won.
+    drawVersusStatus(world: GameWorld) {
+        const ctx = this.ctx;
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = 'white';
+        ctx.font = '14px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.fillText(`ROUND ${world.round}`, GAME_WIDTH / 2, 62);
+        world.players.forEach((player, i) => {
+            const x = i === 0 ? GAME_WIDTH / 2 - 150 : GAME_WIDTH / 2 + 150;
+            ctx.fillStyle = 'white';
+            ctx.font = '12px "Press Start 2P"';
+            ctx.fillText(`P${player.id} KO ${player.kills}/${VERSUS_KILLS_TO_WIN}`, x, 62);
+            for (let r = 0; r < VERSUS_ROUNDS_TO_WIN; r++) {
+                ctx.fillStyle = r < world.roundWins[i] ? '#ffdc00' : '#333';
+                ctx.fillRect(x - VERSUS_ROUNDS_TO_WIN * 8 + r * 16 + 2, 70, 12, 12);
+            }
+        });
+    }
+
+    drawRoundResults(world: GameWorld) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = 'white';
+        ctx.font = '24px "Press Start 2P"';
+        ctx.fillText(`ROUND ${world.round}`, GAME_WIDTH / 2, GAME_HEIGHT / 2 - 90);
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '44px "Press Start 2P"';
+        ctx.fillText(world.roundWinner === null ? 'DRAW' : `PLAYER ${world.roundWinner} WINS`, GAME_WIDTH / 2, GAME_HEIGHT / 2 - 20);
+        this.drawRoundTally(world, GAME_HEIGHT / 2 + 50);
+    }
+
+    drawMatchResults(world: GameWorld, canSaveReplay: boolean) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        const winner = world.matchWinner();
+        ctx.fillStyle = '#ff4136';
+        ctx.font = '44px "Press Start 2P"';
+        ctx.fillText(winner === null ? 'MATCH DRAWN' : `PLAYER ${winner} WINS!`, GAME_WIDTH / 2 + 4, GAME_HEIGHT / 2 - 50 + 4);
+        ctx.fillStyle = '#ffdc00';
+        ctx.fillText(winner === null ? 'MATCH DRAWN' : `PLAYER ${winner} WINS!`, GAME_WIDTH / 2, GAME_HEIGHT / 2 - 50);
+        this.drawRoundTally(world, GAME_HEIGHT / 2 + 10);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '20px "Press Start 2P"';
+        ctx.fillText('Press Enter to return to menu', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 70);
+        if (canSaveReplay) {
+            ctx.font = '14px "Press Start 2P"';
+            ctx.fillText('Press R to save a replay', GAME_WIDTH / 2, GAME_HEIGHT / 2 + 110);
+        }
+    }
+
+    // "P1 2 - 1 P2" in rounds won.
+    private drawRoundTally(world: GameWorld, y: number) {
+        const ctx = this.ctx;
+        ctx.fillStyle = 'white';
+        ctx.font = '28px "Press Start 2P"';
+        ctx.fillText(`P1 ${world.roundWins[0]} - ${world.roundWins[1]} P2`, GAME_WIDTH / 2, y);
+    }
+
+    // Top-left tag for online games; it turns red while we wait for the partner's input to catch up.
+    drawOnlineBadge(waiting: boolean) {
+        const ctx = this.ctx;
+        ctx.fillStyle = waiting ? '#ff4136' : '#2ecc40';
+        ctx.font = '16px "Press Start 2P"';
+        ctx.textAlign = 'left';
+        ctx.fillText(waiting ? 'WAITING FOR PARTNER' : 'ONLINE', 10, 24);
+    }
+
+    drawReplayBadge() {
+        const ctx = this.ctx;
+        ctx.fillStyle = '#ff4136';
+        ctx.font = '16px "Press Start 2P"';
+        ctx.textAlign = 'left';
+        ctx.fillText('REPLAY', 10, 24);
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import { AccessibilityOptions, GAME_SPEEDS } from './accessibility';
+import type { AudioSystem } from './audio';
+import type { CanvasRenderer } from './renderer';
+
+type VolumeSetting = 'master' | 'sfx' | 'music';
+type ToggleSetting = 'muted' | 'reducedMotion' | 'highContrast';
+type Row = VolumeSetting | ToggleSetting | 'gameSpeed';
+
+const ROWS: Row[] = ['master', 'sfx', 'music', 'muted', 'reducedMotion', 'highContrast', 'gameSpeed'];
+const ROW_LABELS: Record<Row, string> = {
+    master: 'MASTER', sfx: 'EFFECTS', music: 'MUSIC', muted: 'MUTE',
+    reducedMotion: 'REDUCE MOTION', highContrast: 'HIGH CONTRAST', gameSpeed: 'GAME SPEED',
+};
+const VOLUME_STEP = 0.1;
+
+/**
+ * Sound and accessibility settings. Left/right changes the selected volume or
+ * speed, Enter toggles the on/off ones; every change is saved straight away.
+ */
+export class SettingsMenu {
+    audio: AudioSystem;
+    accessibility: AccessibilityOptions;
+    row = 0;
+
+    constructor(audio: AudioSystem, accessibility: AccessibilityOptions) {
+        this.audio = audio;
+        this.accessibility = accessibility;
+    }
+
+    // Returns true when the player asked to leave the screen.
+    handleKey(key: string): boolean {
+        const row = ROWS[this.row];
+        if (key === 'escape') return true;
+        if (key === 'arrowup') this.row = (this.row + ROWS.length - 1) % ROWS.length;
+        if (key === 'arrowdown') this.row = (this.row + 1) % ROWS.length;
+        if (row === 'muted' || row === 'reducedMotion' || row === 'highContrast') {
+            if (key === 'enter' || key === 'arrowleft' || key === 'arrowright') this.toggle(row);
+        } else if (row === 'gameSpeed') {
+            if (key === 'arrowleft' || key === 'arrowright') this.changeSpeed(key === 'arrowleft' ? -1 : 1);
+        } else if (key === 'arrowleft' || key === 'arrowright') {
+            this.changeVolume(row, key === 'arrowleft' ? -VOLUME_STEP : VOLUME_STEP);
+        }
+        return false;
+    }
+
+    private changeVolume(setting: VolumeSetting, delta: number) {
+        const settings = this.audio.settings;
+        // Round so ten steps land exactly on 0 and 1
+        settings[setting] = Math.round(Math.min(1, Math.max(0, settings[setting] + delta)) * 10) / 10;
+        this.audio.applySettings();
+        // Let the player hear the new level; music is audible on its own channel
+        if (setting !== 'music') this.audio.play('jump');
+    }
+
+    private toggle(setting: ToggleSetting) {
+        if (setting === 'muted') {
+            this.audio.settings.muted = !this.audio.settings.muted;
+            this.audio.applySettings();
+            return;
+        }
+        this.accessibility.settings[setting] = !this.accessibility.settings[setting];
+        this.accessibility.save();
+    }
+
+    // Step through GAME_SPEEDS, stopping at either end.
+    private changeSpeed(steps: number) {
+        const settings = this.accessibility.settings;
+        const index = Math.max(0, Math.min(GAME_SPEEDS.length - 1, GAME_SPEEDS.indexOf(settings.gameSpeed) + steps));
+        settings.gameSpeed = GAME_SPEEDS[index];
+        this.accessibility.save();
+    }
+
+    private toggleValue(setting: ToggleSetting) {
+        return setting === 'muted' ? this.audio.settings.muted : this.accessibility.settings[setting];
+    }
+
+    draw(renderer: CanvasRenderer) {
+        const ctx = renderer.ctx;
+        const settings = this.audio.settings;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillStyle = '#ffdc00';
+        ctx.font = '40px "Press Start 2P"';
+        ctx.fillText('SETTINGS', GAME_WIDTH / 2, 90);
+
+        ctx.font = '20px "Press Start 2P"';
+        ROWS.forEach((row, i) => {
+            const y = 180 + i * 64;
+            ctx.fillStyle = i === this.row ? '#ffdc00' : 'white';
+            ctx.textAlign = 'left';
+            ctx.fillText(ROW_LABELS[row], 160, y);
+
+            if (row === 'muted' || row === 'reducedMotion' || row === 'highContrast') {
+                ctx.fillText(this.toggleValue(row) ? 'ON' : 'OFF', 520, y);
+                return;
+            }
+            if (row === 'gameSpeed') {
+                ctx.fillText(`${Math.round(this.accessibility.settings.gameSpeed * 100)}%`, 520, y);
+                return;
+            }
+            // Ten-segment volume bar
+            const level = Math.round(settings[row] * 10);
+            for (let s = 0; s < 10; s++) {
+                ctx.fillStyle = s < level ? (i === this.row ? '#ffdc00' : 'white') : '#333';
+                ctx.fillRect(520 + s * 26, y - 20, 20, 20);
+            }
+        });
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.fillText('UP/DOWN: SELECT  LEFT/RIGHT: ADJUST  ENTER: TOGGLE  ESC: BACK', GAME_WIDTH / 2, GAME_HEIGHT - 30);
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Animation, ClipName } from '../game/animation';
+
+export interface FrameRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// A named clip: the frames to show in order and how long each one stays up.
+export interface ClipData {
+    frames: string[];
+    frameMs: number;
+    loop?: boolean; // Default true; otherwise the last frame holds
+}
+
+/**
+ * The atlas description that sits next to the image: where each frame is in
+ * the sheet, and the clips each skin (entity look) offers.
+ */
+export interface AtlasData {
+    frames: { [name: string]: FrameRect };
+    sprites: { [skin: string]: Partial<Record<ClipName, ClipData>> };
+}
+
+/**
+ * A loaded sprite sheet. Drawing an unknown skin reports failure instead of
+ * throwing so the renderer can fall back to emoji per entity.
+ */
+export class SpriteAtlas {
+    image: CanvasImageSource;
+    data: AtlasData;
+
+    constructor(image: CanvasImageSource, data: AtlasData) {
+        this.image = image;
+        this.data = data;
+    }
+
+    // The frame an animation is on. Skins without the requested clip show their idle clip.
+    frameFor(skin: string, animation: Animation): FrameRect | null {
+        const clips = this.data.sprites[skin];
+        const clip = clips?.[animation.clip] ?? clips?.idle;
+        if (!clip || clip.frames.length === 0) return null;
+        let index = Math.floor(animation.time / clip.frameMs);
+        index = clip.loop === false ? Math.min(index, clip.frames.length - 1) : index % clip.frames.length;
+        return this.data.frames[clip.frames[index]] ?? null;
+    }
+
+    // Draw `skin` stretched to the given box, mirrored when `mirror` is set. Returns false if it has no frame.
+    draw(ctx: CanvasRenderingContext2D, skin: string, animation: Animation, x: number, y: number, width: number, height: number, mirror = false) {
+        const frame = this.frameFor(skin, animation);
+        if (!frame) return false;
+        ctx.save();
+        ctx.imageSmoothingEnabled = false; // Keep the pixel art crisp at any scale
+        if (mirror) {
+            ctx.translate(x + width, y);
+            ctx.scale(-1, 1);
+            ctx.drawImage(this.image, frame.x, frame.y, frame.w, frame.h, 0, 0, width, height);
+        } else {
+            ctx.drawImage(this.image, frame.x, frame.y, frame.w, frame.h, x, y, width, height);
+        }
+        ctx.restore();
+        return true;
+    }
+}
+
+// Resolves once the sheet image has loaded; rejects if it cannot be fetched or decoded.
+export function loadSpriteAtlas(imageUrl: string, data: AtlasData): Promise<SpriteAtlas> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(new SpriteAtlas(image, data));
+        image.onerror = () => reject(new Error(`Could not load sprite sheet ${imageUrl}`));
+        image.src = imageUrl;
+    });
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import { ACTIONS, Action, InputManager } from './controls';
+import type { CanvasRenderer } from './renderer';
+import { isFullscreen, toggleFullscreen } from './viewport';
+
+const BUTTON_SIZE = 96;
+const BUTTON_GAP = 14;
+const BUTTON_Y = GAME_HEIGHT - BUTTON_SIZE - 14;
+const SMALL_BUTTON_SIZE = 56;
+const SMALL_BUTTON_Y = GAME_HEIGHT - SMALL_BUTTON_SIZE - 20;
+const BACK_BUTTON = { x: 14, y: 14, width: 120, height: 44 }; // Top-left, clear of every screen's title
+
+// In game coordinates. `player` is null for the shared pause and fullscreen buttons.
+interface TouchButton {
+    player: number | null;
+    action: Action | 'fullscreen';
+    x: number;
+    y: number;
+    size: number;
+}
+
+const ACTION_LABELS: Record<Action | 'fullscreen', string> = { left: '◀', right: '▶', jump: '▲', pause: 'II', fullscreen: '⛶' };
+
+function moveButtons(player: number, x: number): TouchButton[] {
+    return (['left', 'right', 'jump'] as const).map((action, i) => (
+        { player, action, x: x + i * (BUTTON_SIZE + BUTTON_GAP), y: BUTTON_Y, size: BUTTON_SIZE }
+    ));
+}
+
+// One player gets left/right in the bottom-left corner and jump in the other; two players get a full set each.
+function layout(numPlayers: number): TouchButton[] {
+    const rowWidth = BUTTON_SIZE * 3 + BUTTON_GAP * 2;
+    const buttons = numPlayers === 1
+        ? moveButtons(0, BUTTON_GAP).map(b => b.action === 'jump' ? { ...b, x: GAME_WIDTH - BUTTON_GAP - BUTTON_SIZE } : b)
+        : [...moveButtons(0, BUTTON_GAP), ...moveButtons(1, GAME_WIDTH - BUTTON_GAP - rowWidth)];
+    return [
+        ...buttons,
+        { player: null, action: 'pause', x: GAME_WIDTH / 2 - SMALL_BUTTON_SIZE - 4, y: SMALL_BUTTON_Y, size: SMALL_BUTTON_SIZE },
+        { player: null, action: 'fullscreen', x: GAME_WIDTH / 2 + 4, y: SMALL_BUTTON_Y, size: SMALL_BUTTON_SIZE },
+    ];
+}
+
+function contains(button: TouchButton, x: number, y: number) {
+    return x >= button.x && x < button.x + button.size && y >= button.y && y < button.y + button.size;
+}
+
+/**
+ * Virtual buttons drawn over the playfield for touch screens. Each finger is
+ * tracked on its own and can slide from one button to the next; what they
+ * hold is fed to the InputManager like another pad.
+ */
+export class TouchControls {
+    input: InputManager;
+    enabled = false; // Switched on by the first touch, so keyboard and pad players never see the buttons
+    private buttons: TouchButton[] = layout(1);
+    private fingers = new Map<number, TouchButton | null>(); // Pointer id -> the button under it
+
+    constructor(input: InputManager) {
+        this.input = input;
+    }
+
+    setPlayers(numPlayers: number) {
+        this.buttons = layout(numPlayers);
+        this.release();
+    }
+
+    // Returns true when the touch landed on a button.
+    pointerDown(id: number, x: number, y: number): boolean {
+        const button = this.buttonAt(x, y);
+        this.fingers.set(id, button);
+        if (button?.action === 'fullscreen') toggleFullscreen(); // Has to happen inside the gesture
+        this.sync();
+        return button !== null;
+    }
+
+    pointerMove(id: number, x: number, y: number) {
+        if (!this.fingers.has(id)) return;
+        const button = this.buttonAt(x, y);
+        // Sliding onto a button works for movement, but toggles only respond to a fresh tap
+        this.fingers.set(id, button?.player === null ? this.fingers.get(id)! : button);
+        this.sync();
+    }
+
+    pointerUp(id: number) {
+        this.fingers.delete(id);
+        this.sync();
+    }
+
+    // Let go of everything, e.g. when the game ends under a finger.
+    release() {
+        this.fingers.clear();
+        this.sync();
+    }
+
+    draw(renderer: CanvasRenderer) {
+        if (!this.enabled) return;
+        const ctx = renderer.ctx;
+        const held = new Set(this.fingers.values());
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        this.buttons.forEach(button => {
+            ctx.fillStyle = held.has(button) ? 'rgba(255, 220, 0, 0.45)' : 'rgba(255, 255, 255, 0.15)';
+            ctx.fillRect(button.x, button.y, button.size, button.size);
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(button.x, button.y, button.size, button.size);
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+            ctx.font = `${Math.round(button.size * 0.4)}px sans-serif`;
+            const label = button.action === 'fullscreen' && isFullscreen() ? '✕' : ACTION_LABELS[button.action];
+            ctx.fillText(label, button.x + button.size / 2, button.y + button.size / 2);
+            if (button.player !== null && this.buttons.some(b => b.player === 1)) {
+                ctx.font = '10px "Press Start 2P"';
+                ctx.fillText(`P${button.player + 1}`, button.x + button.size / 2, button.y + 12);
+            }
+        });
+        ctx.restore();
+    }
+
+    // The menu screens have no buttons of their own, so touch players get one to leave them by.
+    drawBackButton(renderer: CanvasRenderer) {
+        if (!this.enabled) return;
+        const ctx = renderer.ctx;
+        const { x, y, width, height } = BACK_BUTTON;
+        ctx.save();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, y, width, height);
+        ctx.fillStyle = 'white';
+        ctx.font = '12px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('◀ BACK', x + width / 2, y + height / 2);
+        ctx.restore();
+    }
+
+    isBackButton(x: number, y: number) {
+        const b = BACK_BUTTON;
+        return x >= b.x && x < b.x + b.width && y >= b.y && y < b.y + b.height;
+    }
+
+    private buttonAt(x: number, y: number) {
+        return this.buttons.find(b => contains(b, x, y)) ?? null;
+    }
+
+    private sync() {
+        const fingers = [...this.fingers.values()];
+        const holding = (player: number | null, action: Action) =>
+            fingers.some(b => b !== null && b.action === action && (b.player === player || b.player === null));
+        [0, 1].forEach(player => {
+            const held = Object.fromEntries(ACTIONS.map(a => [a, holding(player, a)])) as Record<Action, boolean>;
+            // Pause is shared, so player 2 never needs its own press of it
+            if (player === 1) held.pause = false;
+            this.input.setTouchHeld(player, held);
+        });
+    }
+}
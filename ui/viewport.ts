@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+
+const FRAME = 8; // px of #game-container border around the canvas, both sides together
+
+/**
+ * Size the canvas to the largest 4:3 box that fits the window under the HUD,
+ * with a backing store at the device's pixel ratio so it stays sharp. The
+ * context is scaled to match, so everything still draws in game coordinates.
+ */
+export function fitCanvas(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+    const hudHeight = document.getElementById('ui-container')?.offsetHeight ?? 0;
+    const scale = Math.max(0.1, Math.min((window.innerWidth - FRAME) / GAME_WIDTH, (window.innerHeight - hudHeight - FRAME) / GAME_HEIGHT));
+    const width = Math.floor(GAME_WIDTH * scale);
+    const height = Math.floor(GAME_HEIGHT * scale);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    // Resizing resets the context, transform included
+    ctx.setTransform(canvas.width / GAME_WIDTH, 0, 0, canvas.height / GAME_HEIGHT, 0, 0);
+}
+
+export function isFullscreen() {
+    return !!document.fullscreenElement;
+}
+
+// Browsers only allow entering fullscreen from a user gesture, so call this from an input handler.
+export function toggleFullscreen() {
+    const request = isFullscreen() ? document.exitFullscreen() : document.documentElement.requestFullscreen?.();
+    request?.catch(err => console.warn('Fullscreen unavailable:', err));
+}